@@ -0,0 +1,44 @@
+/**
+ * Minimal OTLP/HTTP (JSON) collector for testing the watchdog's OpenTelemetry export.
+ * Logs a summary of every request; --verbose prints the full payloads.
+ * Run: bun scripts/otlp-stub.ts [port]   then   OTEL_EXPORTER_OTLP_ENDPOINT=http://localhost:4318
+ */
+
+const PORT = Number(process.argv.find((a) => /^\d+$/.test(a))) || 4318;
+const VERBOSE = process.argv.includes("--verbose");
+
+function summarize(path: string, body: any): string {
+  if (path === "/v1/metrics") {
+    const metrics = body.resourceMetrics?.flatMap((r: any) => r.scopeMetrics.flatMap((s: any) => s.metrics)) ?? [];
+    const points = metrics.reduce((n: number, m: any) => n + (m.gauge?.dataPoints.length ?? 0), 0);
+    return `${metrics.length} metrics, ${points} data points`;
+  }
+  if (path === "/v1/logs") {
+    const records = body.resourceLogs?.flatMap((r: any) => r.scopeLogs.flatMap((s: any) => s.logRecords)) ?? [];
+    return records.map((r: any) => `${r.severityText} ${r.body?.stringValue}`).join(", ");
+  }
+  if (path === "/v1/traces") {
+    const spans = body.resourceSpans?.flatMap((r: any) => r.scopeSpans.flatMap((s: any) => s.spans)) ?? [];
+    return spans
+      .map((s: any) => `${s.name} [${s.events.map((e: any) => e.name).join(" → ")}]`)
+      .join(", ");
+  }
+  return "unknown signal";
+}
+
+Bun.serve({
+  port: PORT,
+  async fetch(req) {
+    const path = new URL(req.url).pathname;
+    if (req.method !== "POST") return new Response("Not Found", { status: 404 });
+
+    const body = await req.json().catch(() => null);
+    if (!body) return new Response("Bad Request", { status: 400 });
+
+    console.log(`[otlp-stub] ${path}: ${summarize(path, body)}`);
+    if (VERBOSE) console.log(JSON.stringify(body, null, 2));
+    return Response.json({});
+  },
+});
+
+console.log(`[otlp-stub] Listening on http://localhost:${PORT}`);
@@ -0,0 +1,69 @@
+/**
+ * Authentication for the local HTTP/WebSocket API.
+ *
+ * Loopback callers (the tray-launched dashboard) are trusted as operators unless
+ * WATCHDOG_AUTH_LOOPBACK=true. Everyone else must present API user credentials
+ * from credentials.ts: HTTP Basic (name/password), "Authorization: Bearer <token>"
+ * or "?token=<token>" (for WebSocket clients that can't set headers).
+ */
+
+import * as crypto from "crypto";
+import { getApiUsers, type ApiRole } from "./credentials";
+
+const AUTH_LOOPBACK = (process.env.WATCHDOG_AUTH_LOOPBACK || "false").toLowerCase() === "true";
+
+const ROLE_RANK: Record<ApiRole, number> = { viewer: 0, operator: 1 };
+
+export interface Caller {
+  name: string;
+  role: ApiRole;
+  isLoopback: boolean;   // only loopback callers count as local for the lease
+}
+
+export function isLoopbackAddress(address: string | undefined): boolean {
+  if (!address) return false;
+  return address === "::1" || address.startsWith("127.") || address.startsWith("::ffff:127.");
+}
+
+/** Constant-time compare; empty secrets never match */
+function secretEquals(given: string, expected: string): boolean {
+  if (!given || !expected) return false;
+  const a = crypto.createHash("sha256").update(given).digest();
+  const b = crypto.createHash("sha256").update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+function fromBasic(encoded: string): { name: string; password: string } | null {
+  const decoded = Buffer.from(encoded, "base64").toString("utf-8");
+  const sep = decoded.indexOf(":");
+  if (sep < 0) return null;
+  return { name: decoded.slice(0, sep), password: decoded.slice(sep + 1) };
+}
+
+/** Resolve the caller for a request, or null if it isn't authenticated */
+export function authenticate(req: Request, address: string | undefined): Caller | null {
+  const isLoopback = isLoopbackAddress(address);
+  if (isLoopback && !AUTH_LOOPBACK) {
+    return { name: "local", role: "operator", isLoopback };
+  }
+
+  const header = req.headers.get("authorization") || "";
+  const [scheme, value = ""] = header.split(" ", 2);
+
+  if (scheme.toLowerCase() === "basic") {
+    const basic = fromBasic(value);
+    const user = basic && getApiUsers().find((u) => u.name === basic.name);
+    if (user && secretEquals(basic!.password, user.password)) {
+      return { name: user.name, role: user.role, isLoopback };
+    }
+    return null;
+  }
+
+  const token = scheme.toLowerCase() === "bearer" ? value : new URL(req.url).searchParams.get("token") || "";
+  const user = getApiUsers().find((u) => secretEquals(token, u.token));
+  return user ? { name: user.name, role: user.role, isLoopback } : null;
+}
+
+export function hasRole(caller: Caller, role: ApiRole): boolean {
+  return ROLE_RANK[caller.role] >= ROLE_RANK[role];
+}
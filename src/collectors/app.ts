@@ -1,7 +1,9 @@
 import * as fs from "fs";
 import * as path from "path";
 import type { AppMetrics, ServerLockInfo, LogMetrics, VuosProcessInfo } from "../types";
-import { VUOS_DIR } from "../config";
+import { VUOS_DIR, VUOS_PROCESS_NAME, SERVER_PROCESS_NAME } from "../config";
+import { getSupervisor } from "../supervisor";
+import { startCollector } from "./status";
 
 const LOCK_FILE = path.join(VUOS_DIR, "vu-server.lock");
 const ERROR_LOG = path.join(VUOS_DIR, "logs", "error.log");
@@ -15,6 +17,7 @@ let cachedServerVersion = "unknown";
 let cachedLogs: LogMetrics = { recentErrorCount: 0, lastError: null, lastErrorTime: null };
 let cachedVuosMemoryMB: number | null = null;
 let cachedVuosProcess: VuosProcessInfo | null = null;
+let cachedVuosPid: number | null = null;
 let lastCpuTimeMs = 0;
 let lastCpuTimestamp = 0;
 
@@ -30,74 +33,29 @@ interface ProcessResult {
   processInfo: VuosProcessInfo | null;
 }
 
-const VUOS_INFO_SCRIPT = `$p = Get-Process -Name 'Vu One' -ErrorAction SilentlyContinue | Select-Object -First 1
-if ($p) {
-  $cpuTime = $p.TotalProcessorTime.TotalMilliseconds
-  $gpuMemMB = -1
-  try {
-    $samples = (Get-Counter '\\GPU Process Memory(*)\\Dedicated Usage' -ErrorAction SilentlyContinue).CounterSamples
-    $match = $samples | Where-Object { $_.InstanceName -match ('pid_' + $p.Id + '_') } | Select-Object -First 1
-    if ($match) { $gpuMemMB = [math]::Round($match.CookedValue / 1MB, 0) }
-  } catch {}
-  $startTime = $p.StartTime.ToString('o')
-  Write-Output "$($p.Id)|$($p.WorkingSet64)|$($p.Responding)|$($p.Threads.Count)|$($p.HandleCount)|$($p.PriorityClass)|$startTime|$cpuTime|$gpuMemMB"
-} else { Write-Output "none" }`;
-
 async function getVuosProcessInfo(): Promise<ProcessResult> {
-  try {
-    const proc = Bun.spawn(["powershell", "-NoProfile", "-Command", VUOS_INFO_SCRIPT]);
-    const output = await new Response(proc.stdout).text();
-    await proc.exited;
-
-    const trimmed = output.trim();
-    if (trimmed === "none" || !trimmed) {
-      return { running: false, pid: null, memoryMB: null, processInfo: null };
-    }
-
-    const parts = trimmed.split("|");
-    const pid = parseInt(parts[0], 10);
-    const memBytes = parseInt(parts[1], 10);
-    const responding = parts[2] === "True";
-    const threads = parseInt(parts[3], 10);
-    const handles = parseInt(parts[4], 10);
-    const priority = parts[5] || "Normal";
-    const startTime = parts[6] || null;
-    const cpuTimeMs = parseFloat(parts[7]) || 0;
-    const gpuMemMB = parseInt(parts[8], 10);
-
-    return {
-      running: true,
-      pid: isNaN(pid) ? null : pid,
-      memoryMB: isNaN(memBytes) ? null : Math.round(memBytes / (1024 * 1024)),
-      processInfo: {
-        responding,
-        threads: isNaN(threads) ? 0 : threads,
-        handles: isNaN(handles) ? 0 : handles,
-        priority,
-        startTime,
-        cpuTimeMs,
-        gpuMemoryMB: gpuMemMB >= 0 ? gpuMemMB : null,
-      },
-    };
-  } catch {
+  const [proc] = await getSupervisor().find(VUOS_PROCESS_NAME);
+  if (!proc) {
     return { running: false, pid: null, memoryMB: null, processInfo: null };
   }
+  return {
+    running: true,
+    pid: proc.pid,
+    memoryMB: proc.memoryMB,
+    processInfo: {
+      responding: proc.responding,
+      threads: proc.threads,
+      handles: proc.handles,
+      priority: proc.priority,
+      startTime: proc.startTime,
+      cpuTimeMs: proc.cpuTimeMs,
+      gpuMemoryMB: proc.gpuMemoryMB,
+    },
+  };
 }
 
 async function isProcessRunning(name: string): Promise<boolean> {
-  try {
-    const proc = Bun.spawn([
-      "powershell",
-      "-NoProfile",
-      "-Command",
-      `(Get-Process -Name '${name}' -ErrorAction SilentlyContinue) -ne $null`,
-    ]);
-    const output = await new Response(proc.stdout).text();
-    await proc.exited;
-    return output.trim().toLowerCase() === "true";
-  } catch {
-    return false;
-  }
+  return (await getSupervisor().find(name)).length > 0;
 }
 
 function getServerVersion(): string {
@@ -182,12 +140,13 @@ function readRecentErrors(): LogMetrics {
   }
 }
 
-async function refreshProcesses() {
+async function refreshProcesses(): Promise<boolean> {
   // Get Vu One info (PID + memory + extended) in a single call
   const vuosInfo = await getVuosProcessInfo();
   cachedVuosRunning = vuosInfo.running;
   cachedVuosMemoryMB = vuosInfo.memoryMB;
   cachedVuosProcess = vuosInfo.processInfo;
+  cachedVuosPid = vuosInfo.running ? vuosInfo.pid : null;
 
   // Crash detection: PID changed while process is running
   const today = new Date().toDateString();
@@ -207,30 +166,35 @@ async function refreshProcesses() {
   }
 
   // Server check (separate because of wildcard name)
-  cachedServerRunning = await isProcessRunning("Vu_OS_Server*");
+  cachedServerRunning = await isProcessRunning(SERVER_PROCESS_NAME);
+  return true;
 }
 
-function refreshVersion() {
+function refreshVersion(): boolean {
   cachedServerVersion = getServerVersion();
+  return true;
 }
 
-function refreshLogs() {
+function refreshLogs(): boolean {
   cachedLogs = readRecentErrors();
+  return true;
 }
 
 /** Start background polling for slow app collectors */
 export function startAppPolling() {
   // Process checks: every 5s
-  refreshProcesses();
-  setInterval(refreshProcesses, 5_000);
+  startCollector("processes", 5_000, refreshProcesses);
 
   // Server version: every 60s
-  refreshVersion();
-  setInterval(refreshVersion, 60_000);
+  startCollector("serverVersion", 60_000, refreshVersion);
 
   // Error log: every 10s
-  refreshLogs();
-  setInterval(refreshLogs, 10_000);
+  startCollector("logs", 10_000, refreshLogs);
+}
+
+/** PID of the running Vu One OS process as of the last poll (null if not running) */
+export function getVuosPid(): number | null {
+  return cachedVuosPid;
 }
 
 /** Fast snapshot — lock file is instant (fs read), rest from cache */
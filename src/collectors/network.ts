@@ -1,5 +1,6 @@
 import type { NetworkMetrics } from "../types";
 import { loadConfig } from "../config";
+import { startCollector, NOT_APPLICABLE, type RefreshResult } from "./status";
 
 // --- Cached slow metrics ---
 let cachedOnline = false;
@@ -8,7 +9,8 @@ let cachedReachable = false;
 let cachedPeers = 0;
 let currentHttpPort: number = 0;
 
-async function checkInternet() {
+// Unreachable is a result, not a collector failure — these only go stale if a check hangs
+async function checkInternet(): Promise<boolean> {
   try {
     const start = performance.now();
     const res = await fetch("https://www.google.com/generate_204", {
@@ -21,6 +23,7 @@ async function checkInternet() {
     cachedOnline = false;
     cachedLatencyMs = null;
   }
+  return true;
 }
 
 function refreshHttpPort() {
@@ -33,8 +36,8 @@ function refreshHttpPort() {
   } catch {}
 }
 
-async function checkLocalServer() {
-  if (!currentHttpPort) return;
+async function checkLocalServer(): Promise<RefreshResult> {
+  if (!currentHttpPort) return NOT_APPLICABLE;   // no HTTP port configured
   try {
     const res = await fetch(`http://localhost:${currentHttpPort}/connected-users`, {
       signal: AbortSignal.timeout(3000),
@@ -42,15 +45,17 @@ async function checkLocalServer() {
     if (!res.ok) {
       cachedReachable = false;
       cachedPeers = 0;
-      return;
+      return true;
     }
     const data = await res.json();
     cachedReachable = true;
     cachedPeers = Array.isArray(data) ? data.length : 0;
+    return true;
   } catch {
     cachedReachable = false;
     cachedPeers = 0;
   }
+  return true;
 }
 
 /** Start background polling for network checks */
@@ -58,15 +63,13 @@ export function startNetworkPolling(httpPort: number) {
   currentHttpPort = httpPort;
 
   // Internet: every 10s
-  checkInternet();
-  setInterval(checkInternet, 10_000);
+  startCollector("internet", 10_000, checkInternet);
 
   // Re-read httpPort from config every 10s (Vu OS may regenerate ports on restart)
   setInterval(refreshHttpPort, 10_000);
 
   // Local server: every 3s
-  checkLocalServer();
-  setInterval(checkLocalServer, 3_000);
+  startCollector("localServer", 3_000, checkLocalServer);
 }
 
 /** Fast snapshot from cache */
@@ -0,0 +1,111 @@
+import type { CollectorStatus } from "../types";
+
+// --- Per-collector freshness ---
+//
+// Every background refresh runs through startCollector, which records when it
+// last succeeded and how often it has failed since. A collector is stale once it
+// hasn't succeeded for STALE_INTERVALS of its own interval — a hung PowerShell
+// query or a probe that keeps throwing — and rules.ts raises COLLECTOR_STALE:<name>.
+// A metric that doesn't exist on this machine (no GPU, no package manager) is
+// reported as NOT_APPLICABLE instead, which is neither a success nor an error.
+
+export const COLLECTOR_NAMES = [
+  "cpu", "gpu", "disk", "diskIO", "thermal", "updates", "eventLog",   // system
+  "internet", "localServer",                                          // network
+  "processes", "serverVersion", "logs",                               // app
+] as const;
+
+export type CollectorName = (typeof COLLECTOR_NAMES)[number];
+
+const STALE_INTERVALS = Number(process.env.COLLECTOR_STALE_INTERVALS) || 3;
+
+export const NOT_APPLICABLE = "not-applicable";
+
+export type RefreshResult = boolean | typeof NOT_APPLICABLE;
+
+interface CollectorState {
+  intervalMs: number;
+  startedAt: number;
+  collectedAt: number | null;
+  notApplicableAt: number | null;   // last refresh that found the metric doesn't apply
+  errors: number;
+  totalErrors: number;
+  lastError: string | null;
+  running: boolean;
+}
+
+const collectors = new Map<CollectorName, CollectorState>();
+
+function recordFailure(name: CollectorName, state: CollectorState, error: string): void {
+  if (state.errors === 0) console.error(`[collector] ${name} failed: ${error}`);
+  state.errors++;
+  state.totalErrors++;
+  state.lastError = error;
+}
+
+/**
+ * Run `refresh` now and every intervalMs. It resolves true once its cached values
+ * are updated, false if there was nothing to read, NOT_APPLICABLE if there is nothing
+ * to measure on this machine; a throw counts as an error. A tick is skipped while
+ * the previous one is still running, so a hung refresh still goes stale.
+ */
+export function startCollector(name: CollectorName, intervalMs: number, refresh: () => RefreshResult | Promise<RefreshResult>): void {
+  const state: CollectorState = {
+    intervalMs,
+    startedAt: Date.now(),
+    collectedAt: null,
+    notApplicableAt: null,
+    errors: 0,
+    totalErrors: 0,
+    lastError: null,
+    running: false,
+  };
+  collectors.set(name, state);
+
+  const tick = async () => {
+    if (state.running) return;
+    state.running = true;
+    try {
+      const result = await refresh();
+      if (result === NOT_APPLICABLE) {
+        if (state.notApplicableAt === null) console.log(`[collector] ${name} not applicable on this machine`);
+        state.notApplicableAt = Date.now();
+        state.errors = 0;
+      } else if (result) {
+        if (state.errors > 0) console.log(`[collector] ${name} recovered after ${state.errors} failure(s)`);
+        state.collectedAt = Date.now();
+        state.notApplicableAt = null;
+        state.errors = 0;
+      } else {
+        recordFailure(name, state, "no data");
+      }
+    } catch (err: any) {
+      recordFailure(name, state, err?.message ?? String(err));
+    } finally {
+      state.running = false;
+    }
+  };
+
+  tick();
+  setInterval(tick, intervalMs);
+}
+
+/** Freshness of every started collector, keyed by name */
+export function collectCollectors(): Record<string, CollectorStatus> {
+  const now = Date.now();
+  const result: Record<string, CollectorStatus> = {};
+  for (const [name, state] of collectors) {
+    // Never collected yet: measured from startup, so a slow first probe isn't stale straight away
+    const since = Math.max(state.collectedAt ?? state.startedAt, state.notApplicableAt ?? 0);
+    result[name] = {
+      collectedAt: state.collectedAt,
+      applicable: state.notApplicableAt === null,
+      intervalMs: state.intervalMs,
+      errors: state.errors,
+      totalErrors: state.totalErrors,
+      lastError: state.lastError,
+      stale: now - since > state.intervalMs * STALE_INTERVALS,
+    };
+  }
+  return result;
+}
@@ -0,0 +1,216 @@
+import * as os from "os";
+import * as path from "path";
+import type { SystemMetrics, EventLogMetrics, VolumeMetrics } from "../../types";
+import { WATCHED_VOLUMES } from "../../config";
+import { WindowsSystemBackend } from "./windows";
+import { LinuxSystemBackend } from "./linux";
+import { startCollector, NOT_APPLICABLE, type RefreshResult } from "../status";
+
+// --- Platform backend for the slow system metrics ---
+//
+// CPU, RAM and uptime come from the os module everywhere. The rest (GPU, disks,
+// throttling, updates, event log) needs platform tooling and lives behind a
+// SystemBackend: PowerShell/WMI on Windows, procfs/sysfs/journald on Linux.
+
+export interface GpuInfo {
+  name: string | null;
+  usage: number | null;
+  memUsedMB: number | null;
+  memTotalMB: number | null;
+  temp: number | null;
+}
+
+/** A mounted volume's capacity; I/O rates come separately from diskIO() */
+export interface VolumeInfo {
+  mount: string;                // "C:" on Windows, the mount point on Linux
+  label: string | null;
+  fsType: string | null;
+  totalBytes: number;
+  freeBytes: number;
+}
+
+export interface DiskIO {
+  readMBps: number;             // all physical disks
+  writeMBps: number;
+  volumes: Record<string, { readMBps: number; writeMBps: number }>;   // by mount
+}
+
+/**
+ * Each probe resolves null when it can't tell, and the previous value is kept.
+ * Probes that may have nothing to measure resolve NOT_APPLICABLE in that case.
+ */
+export interface SystemBackend {
+  readonly platform: string;
+  /** NOT_APPLICABLE without a GPU */
+  gpu(): Promise<GpuInfo | null | typeof NOT_APPLICABLE>;
+  volumes(): Promise<VolumeInfo[] | null>;
+  diskIO(): Promise<DiskIO | null>;
+  /** CPU throttled for thermal reasons (GPU temperature is checked separately) */
+  cpuThrottled(): Promise<boolean | null>;
+  /** NOT_APPLICABLE without a supported package manager */
+  pendingUpdates(): Promise<number | null | typeof NOT_APPLICABLE>;
+  /** Errors and worse from the last hour; NOT_APPLICABLE without a system log to read */
+  eventLog(): Promise<EventLogMetrics | null | typeof NOT_APPLICABLE>;
+}
+
+const GPU_THROTTLE_TEMP = 90;
+
+const MB = 1024 * 1024;
+
+function usage(totalBytes: number, freeBytes: number): { totalMB: number; usedMB: number; freeMB: number; percent: number } {
+  const totalMB = Math.round(totalBytes / MB);
+  const freeMB = Math.round(freeBytes / MB);
+  const usedMB = totalMB - freeMB;
+  return { totalMB, usedMB, freeMB, percent: totalMB === 0 ? 0 : Math.round((usedMB / totalMB) * 1000) / 10 };
+}
+
+/** The volume holding `dir`: the longest mount that contains it */
+function volumeFor(dir: string, volumes: VolumeMetrics[]): VolumeMetrics | null {
+  const windows = process.platform === "win32";
+  const p = windows ? path.win32 : path.posix;
+  const target = windows ? p.resolve(dir).toLowerCase() : p.resolve(dir);
+  let best: VolumeMetrics | null = null;
+  for (const volume of volumes) {
+    const mount = windows ? volume.mount.toLowerCase() : volume.mount;
+    const prefix = mount.endsWith(p.sep) ? mount : mount + p.sep;
+    if ((target === mount || target.startsWith(prefix)) && (!best || volume.mount.length > best.mount.length)) {
+      best = volume;
+    }
+  }
+  return best;
+}
+
+// --- Cached slow metrics with background refresh ---
+
+let backend: SystemBackend | null = null;
+
+let cachedCpu = 0;
+let cachedGpu: GpuInfo = { name: null, usage: null, memUsedMB: null, memTotalMB: null, temp: null };
+let cachedVolumes: VolumeInfo[] = [];
+let cachedDiskIO: DiskIO = { readMBps: 0, writeMBps: 0, volumes: {} };
+let cachedThermalThrottling = false;
+let cachedPendingUpdates = 0;
+let cachedEventLog: EventLogMetrics = { count: 0, lastMessage: null, lastTime: null };
+
+// Continuous CPU sampling — keeps a rolling measurement without blocking
+let prevCpuTimes: { idle: number; total: number } | null = null;
+
+function sampleCpu(): boolean {
+  const cpus = os.cpus();
+  let idle = 0;
+  let total = 0;
+  for (const cpu of cpus) {
+    idle += cpu.times.idle;
+    total += cpu.times.user + cpu.times.nice + cpu.times.sys + cpu.times.idle + cpu.times.irq;
+  }
+
+  if (prevCpuTimes) {
+    const dIdle = idle - prevCpuTimes.idle;
+    const dTotal = total - prevCpuTimes.total;
+    cachedCpu = dTotal === 0 ? 0 : Math.round((1 - dIdle / dTotal) * 1000) / 10;
+  }
+
+  prevCpuTimes = { idle, total };
+  return true;
+}
+
+/** Run a probe and cache its result; false (keeping the previous value) if it came back empty */
+async function refresh<T>(
+  probe: (b: SystemBackend) => Promise<T | null | typeof NOT_APPLICABLE>,
+  apply: (value: T) => void,
+): Promise<RefreshResult> {
+  if (!backend) return false;
+  const value = await probe(backend);
+  if (value === null) return false;
+  if (value === NOT_APPLICABLE) return NOT_APPLICABLE;
+  apply(value);
+  return true;
+}
+
+const refreshGpu = () => refresh((b) => b.gpu(), (v) => { cachedGpu = v; });
+const refreshDisk = () => refresh((b) => b.volumes(), (v) => { cachedVolumes = v; });
+const refreshDiskIO = () => refresh((b) => b.diskIO(), (v) => { cachedDiskIO = v; });
+const refreshThermalThrottling = () => refresh((b) => b.cpuThrottled(), (cpuThrottled) => {
+  const gpuThrottling = cachedGpu.temp !== null && cachedGpu.temp > GPU_THROTTLE_TEMP;
+  cachedThermalThrottling = cpuThrottled || gpuThrottling;
+});
+const refreshPendingUpdates = () => refresh((b) => b.pendingUpdates(), (v) => { cachedPendingUpdates = v; });
+const refreshEventLog = () => refresh((b) => b.eventLog(), (v) => { cachedEventLog = v; });
+
+/** Start background polling loops for slow collectors */
+export function startSystemPolling(override?: SystemBackend) {
+  backend = override ?? (process.platform === "win32" ? new WindowsSystemBackend() : new LinuxSystemBackend());
+  console.log(`[system] Using ${backend.platform} collector backend`);
+
+  // CPU: sample every 2s (non-blocking, just reads os.cpus())
+  startCollector("cpu", 2_000, sampleCpu);
+
+  // GPU: refresh every 5s
+  startCollector("gpu", 5_000, refreshGpu);
+
+  // Volumes (capacity): refresh every 60s
+  startCollector("disk", 60_000, refreshDisk);
+
+  // Disk I/O: refresh every 5s
+  startCollector("diskIO", 5_000, refreshDiskIO);
+
+  // Thermal throttling: refresh every 10s
+  startCollector("thermal", 10_000, refreshThermalThrottling);
+
+  // Pending updates: refresh every 5 min (slow COM call / package manager)
+  startCollector("updates", 300_000, refreshPendingUpdates);
+
+  // Event log: refresh every 60s
+  startCollector("eventLog", 60_000, refreshEventLog);
+}
+
+function collectVolumes(): VolumeMetrics[] {
+  return cachedVolumes.map((v) => ({
+    mount: v.mount,
+    label: v.label,
+    fsType: v.fsType,
+    ...usage(v.totalBytes, v.freeBytes),
+    readMBps: cachedDiskIO.volumes[v.mount]?.readMBps ?? null,
+    writeMBps: cachedDiskIO.volumes[v.mount]?.writeMBps ?? null,
+  }));
+}
+
+/** Fast snapshot from cached values + instant reads */
+export function collectSystem(): SystemMetrics {
+  const cpus = os.cpus();
+  const volumes = collectVolumes();
+  const disk = usage(
+    cachedVolumes.reduce((sum, v) => sum + v.totalBytes, 0),
+    cachedVolumes.reduce((sum, v) => sum + v.freeBytes, 0),
+  );
+  const totalMem = os.totalmem();
+  const freeMem = os.freemem();
+  const usedMem = totalMem - freeMem;
+
+  return {
+    cpuUsage: cachedCpu,
+    cpuModel: cpus[0]?.model || "Unknown",
+    cpuCores: cpus.length,
+    ramTotalMB: Math.round(totalMem / (1024 * 1024)),
+    ramUsedMB: Math.round(usedMem / (1024 * 1024)),
+    ramPercent: Math.round((usedMem / totalMem) * 1000) / 10,
+    gpuName: cachedGpu.name,
+    gpuUsage: cachedGpu.usage,
+    gpuMemUsedMB: cachedGpu.memUsedMB,
+    gpuMemTotalMB: cachedGpu.memTotalMB,
+    gpuTemp: cachedGpu.temp,
+    diskTotalMB: disk.totalMB,
+    diskUsedMB: disk.usedMB,
+    diskPercent: disk.percent,
+    diskReadMBps: cachedDiskIO.readMBps,
+    diskWriteMBps: cachedDiskIO.writeMBps,
+    volumes,
+    watchedVolumes: Object.fromEntries(
+      Object.entries(WATCHED_VOLUMES).map(([name, dir]) => [name, volumeFor(dir, volumes)]),
+    ),
+    thermalThrottling: cachedThermalThrottling,
+    pendingUpdates: cachedPendingUpdates,
+    eventLog: cachedEventLog,
+    uptime: Math.round(os.uptime()),
+  };
+}
@@ -0,0 +1,381 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { EventLogMetrics } from "../../types";
+import type { SystemBackend, GpuInfo, VolumeInfo, DiskIO } from "./index";
+import { queryNvidiaSmi } from "./nvidia";
+import { NOT_APPLICABLE } from "../status";
+
+// procfs/sysfs/devfs locations, overridable so the backend can run against a fixture tree
+export interface LinuxSystemPaths {
+  procRoot: string;
+  sysRoot: string;
+  devRoot: string;
+  rootDir: string;              // where the mount points in <procRoot>/mounts live
+}
+
+const SECTOR_BYTES = 512;            // /proc/diskstats always counts 512-byte sectors
+const EVENT_LOG_MAX = 10;            // same cap as Get-WinEvent -MaxEvents on Windows
+const RUN_TIMEOUT_MS = 60_000;       // apt/dnf/journalctl; a hung one is killed so its collector can recover
+
+const PCI_VENDORS: Record<string, string> = { "0x1002": "AMD", "0x10de": "NVIDIA", "0x8086": "Intel" };
+
+// Partitions aren't in /sys/block; these are whole devices that would double-count or aren't disks
+const VIRTUAL_BLOCK_DEVICE = /^(loop|ram|zram|dm-|md)/;
+
+// --- Parsers (pure, for fixture tests) ---
+
+export interface MountEntry {
+  device: string;
+  mountPoint: string;
+  fsType: string;
+}
+
+/** /proc/mounts: block-device filesystems only, first mount of each device */
+export function parseMounts(text: string): MountEntry[] {
+  const seen = new Set<string>();
+  const mounts: MountEntry[] = [];
+  for (const line of text.split("\n")) {
+    const [device, mountPoint, fsType] = line.split(" ");
+    if (!device?.startsWith("/dev/") || device.startsWith("/dev/loop") || fsType === "squashfs") continue;
+    if (seen.has(device)) continue;
+    seen.add(device);
+    // Spaces etc. in mount points are octal-escaped (\040)
+    mounts.push({ device, mountPoint: mountPoint.replace(/\\([0-7]{3})/g, (_, o) => String.fromCharCode(parseInt(o, 8))), fsType });
+  }
+  return mounts;
+}
+
+/** /proc/diskstats: device name → [sectors read, sectors written] */
+export function parseDiskstats(text: string): Map<string, [number, number]> {
+  const result = new Map<string, [number, number]>();
+  for (const line of text.split("\n")) {
+    const fields = line.trim().split(/\s+/);
+    if (fields.length < 10) continue;
+    result.set(fields[2], [Number(fields[5]), Number(fields[9])]);
+  }
+  return result;
+}
+
+/** `apt-get -s upgrade`: one "Inst" line per package that would be upgraded */
+export function parseAptSimulation(text: string): number {
+  return text.split("\n").filter((l) => l.startsWith("Inst ")).length;
+}
+
+/** `dnf check-update`: "name.arch  version  repo" lines, before any "Obsoleting Packages" section */
+export function parseDnfCheckUpdate(text: string): number {
+  let count = 0;
+  for (const line of text.split("\n")) {
+    if (line.startsWith("Obsoleting")) break;
+    if (/^\S+\.\S+\s+\S+\s+\S+\s*$/.test(line)) count++;
+  }
+  return count;
+}
+
+function formatLocalTime(ms: number): string {
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+}
+
+/** `journalctl -o json -r`: newest entry first. MESSAGE is a byte array when it isn't valid UTF-8. */
+export function parseJournal(text: string): EventLogMetrics {
+  const entries = text.split("\n").filter((l) => l.trim()).flatMap((l) => {
+    try {
+      return [JSON.parse(l)];
+    } catch {
+      return [];
+    }
+  });
+  if (entries.length === 0) return { count: 0, lastMessage: null, lastTime: null };
+
+  const last = entries[0];
+  const message = Array.isArray(last.MESSAGE) ? Buffer.from(last.MESSAGE).toString("utf-8") : String(last.MESSAGE ?? "");
+  const micros = Number(last.__REALTIME_TIMESTAMP);
+  return {
+    count: Math.min(entries.length, EVENT_LOG_MAX),
+    lastTime: isNaN(micros) ? null : formatLocalTime(micros / 1000),
+    lastMessage: message.trim() ? message.trim().substring(0, 200) : null,
+  };
+}
+
+// --- Helpers ---
+
+function readText(file: string): string | null {
+  try {
+    return fs.readFileSync(file, "utf-8").trim();
+  } catch {
+    return null;
+  }
+}
+
+function readNumber(file: string): number | null {
+  const text = readText(file);
+  if (text === null) return null;
+  const value = Number(text);
+  return isNaN(value) ? null : value;
+}
+
+function listDir(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
+
+/** Run a tool to completion; null if it isn't installed or overran RUN_TIMEOUT_MS (and was killed) */
+async function run(args: string[]): Promise<{ output: string; exitCode: number } | null> {
+  if (!Bun.which(args[0])) return null;
+  const proc = Bun.spawn(args, { stdio: ["ignore", "pipe", "ignore"] });
+  const finished = Promise.all([new Response(proc.stdout).text(), proc.exited])
+    .then(([output, exitCode]) => ({ output, exitCode }));
+
+  let timer: Timer | undefined;
+  const timedOut = new Promise<null>((resolve) => {
+    timer = setTimeout(() => {
+      console.error(`[system] ${args[0]} timed out after ${RUN_TIMEOUT_MS / 1000}s — killing it`);
+      proc.kill();
+      resolve(null);
+    }, RUN_TIMEOUT_MS);
+  });
+  try {
+    return await Promise.race([finished, timedOut]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// --- Backend ---
+
+/** procfs/sysfs, statfs, journald and apt/dnf */
+export class LinuxSystemBackend implements SystemBackend {
+  readonly platform = "linux";
+  private paths: LinuxSystemPaths;
+
+  // Same lock-in as on Windows: nvidia-smi if it works on the first poll, else DRM sysfs
+  private gpuStrategy: "nvidia" | "drm" | null = null;
+  private prevDiskstats: { ts: number; stats: Map<string, [number, number]> } | null = null;
+  private prevThrottleCount: number | null = null;
+
+  constructor(paths: Partial<LinuxSystemPaths> = {}) {
+    this.paths = {
+      procRoot: paths.procRoot ?? "/proc",
+      sysRoot: paths.sysRoot ?? "/sys",
+      devRoot: paths.devRoot ?? "/dev",
+      rootDir: paths.rootDir ?? "/",
+    };
+  }
+
+  /**
+   * Kernel name of a block device (/dev/mapper/vg-root → dm-0); the path's basename if it
+   * can't be resolved. /dev paths from the mount table are looked up under devRoot.
+   */
+  private blockDeviceName(device: string): string {
+    const relative = path.relative("/dev", device);
+    const inDevRoot = relative.startsWith("..") ? device : path.join(this.paths.devRoot, relative);
+    try {
+      return path.basename(fs.realpathSync(inDevRoot));
+    } catch {
+      return path.basename(device);
+    }
+  }
+
+  async gpu(): Promise<GpuInfo | null | typeof NOT_APPLICABLE> {
+    if (this.gpuStrategy === "nvidia") return queryNvidiaSmi();
+    if (this.gpuStrategy === "drm") return this.gpuFromDrm();
+
+    const nvidia = await queryNvidiaSmi();
+    if (nvidia) {
+      this.gpuStrategy = "nvidia";
+      return nvidia;
+    }
+    const drm = this.gpuFromDrm();
+    if (drm) {
+      this.gpuStrategy = "drm";
+      return drm;
+    }
+    // Neither a DRM card nor an NVIDIA driver: a headless box or a VM without a GPU
+    return !this.hasDrmCards() && !Bun.which("nvidia-smi") ? NOT_APPLICABLE : null;
+  }
+
+  private hasDrmCards(): boolean {
+    return listDir(path.join(this.paths.sysRoot, "class", "drm")).some((c) => /^card\d+$/.test(c));
+  }
+
+  /**
+   * /sys/class/drm/cardN/device: amdgpu exposes busy percent and VRAM, most drivers
+   * a hwmon temperature. Sysfs has no marketing name, so it's vendor + PCI ID + driver.
+   * With several cards, the one reporting VRAM (the discrete GPU) wins.
+   */
+  gpuFromDrm(): GpuInfo | null {
+    const drmDir = path.join(this.paths.sysRoot, "class", "drm");
+    const cards = listDir(drmDir).filter((c) => /^card\d+$/.test(c)).sort();
+
+    let best: GpuInfo | null = null;
+    for (const card of cards) {
+      const device = path.join(drmDir, card, "device");
+      const uevent = readText(path.join(device, "uevent"));
+      if (uevent === null) continue;
+
+      const driver = /^DRIVER=(.+)$/m.exec(uevent)?.[1] ?? "unknown";
+      const pciId = /^PCI_ID=(.+)$/m.exec(uevent)?.[1] ?? null;
+      const vendorId = readText(path.join(device, "vendor"));
+      const vendor = (vendorId && PCI_VENDORS[vendorId]) || "GPU";
+
+      const hwmon = listDir(path.join(device, "hwmon"))[0];
+      const tempMilli = hwmon ? readNumber(path.join(device, "hwmon", hwmon, "temp1_input")) : null;
+      const vramUsed = readNumber(path.join(device, "mem_info_vram_used"));
+      const vramTotal = readNumber(path.join(device, "mem_info_vram_total"));
+
+      const info: GpuInfo = {
+        name: `${vendor}${pciId ? ` ${pciId}` : ""} (${driver})`,
+        usage: readNumber(path.join(device, "gpu_busy_percent")),
+        memUsedMB: vramUsed !== null ? Math.round(vramUsed / (1024 * 1024)) : null,
+        memTotalMB: vramTotal !== null ? Math.round(vramTotal / (1024 * 1024)) : null,
+        temp: tempMilli !== null ? Math.round(tempMilli / 1000) : null,
+      };
+      if (!best || (best.memTotalMB === null && info.memTotalMB !== null)) best = info;
+    }
+    return best;
+  }
+
+  async volumes(): Promise<VolumeInfo[] | null> {
+    const mounts = readText(path.join(this.paths.procRoot, "mounts"));
+    if (mounts === null) return null;
+
+    const labels = this.readLabels();
+    const volumes: VolumeInfo[] = [];
+    for (const mount of parseMounts(mounts)) {
+      try {
+        const stat = fs.statfsSync(path.join(this.paths.rootDir, mount.mountPoint));
+        volumes.push({
+          mount: mount.mountPoint,
+          label: labels.get(this.blockDeviceName(mount.device)) ?? null,
+          fsType: mount.fsType,
+          totalBytes: stat.blocks * stat.bsize,
+          freeBytes: stat.bavail * stat.bsize,
+        });
+      } catch {}
+    }
+    return volumes;
+  }
+
+  /** /dev/disk/by-label: kernel device name → label (udev escapes spaces etc. as \xNN) */
+  private readLabels(): Map<string, string> {
+    const labels = new Map<string, string>();
+    const dir = path.join(this.paths.devRoot, "disk", "by-label");
+    for (const link of listDir(dir)) {
+      const label = link.replace(/\\x([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+      // Followed by hand: Bun's realpathSync fails on the backslash in escaped names
+      let target: string;
+      try {
+        target = path.resolve(dir, fs.readlinkSync(path.join(dir, link)));
+      } catch {
+        continue;
+      }
+      labels.set(this.blockDeviceName(target), label);
+    }
+    return labels;
+  }
+
+  async diskIO(): Promise<DiskIO | null> {
+    const text = readText(path.join(this.paths.procRoot, "diskstats"));
+    if (text === null) return null;
+    const stats = parseDiskstats(text);
+
+    // Counters are cumulative, so the rates need two samples
+    const now = Date.now();
+    const prev = this.prevDiskstats;
+    this.prevDiskstats = { ts: now, stats };
+    if (!prev || now <= prev.ts) return null;
+
+    const seconds = (now - prev.ts) / 1000;
+    const mbps = (sectors: number) => Math.max(0, Math.round(((sectors * SECTOR_BYTES) / (1024 * 1024) / seconds) * 10) / 10);
+    const delta = (name: string): [number, number] | null => {
+      const cur = stats.get(name);
+      const old = prev.stats.get(name);
+      return cur && old ? [cur[0] - old[0], cur[1] - old[1]] : null;
+    };
+
+    // Totals over whole physical disks only, so partitions and dm/md layers aren't counted twice
+    let read = 0;
+    let written = 0;
+    for (const name of stats.keys()) {
+      if (VIRTUAL_BLOCK_DEVICE.test(name)) continue;
+      if (!fs.existsSync(path.join(this.paths.sysRoot, "block", name))) continue;   // a partition
+      const d = delta(name);
+      if (!d) continue;
+      read += d[0];
+      written += d[1];
+    }
+
+    // Per volume: the partition (or dm device) behind each mount
+    const volumes: DiskIO["volumes"] = {};
+    const mounts = readText(path.join(this.paths.procRoot, "mounts"));
+    for (const mount of mounts ? parseMounts(mounts) : []) {
+      const d = delta(this.blockDeviceName(mount.device));
+      if (d) volumes[mount.mountPoint] = { readMBps: mbps(d[0]), writeMBps: mbps(d[1]) };
+    }
+
+    return { readMBps: mbps(read), writeMBps: mbps(written), volumes };
+  }
+
+  /**
+   * Throttled if any thermal zone is at or above its passive (or hotter) trip point,
+   * or the Intel package throttle counters went up since the last poll.
+   */
+  async cpuThrottled(): Promise<boolean | null> {
+    const thermalDir = path.join(this.paths.sysRoot, "class", "thermal");
+    let overTrip = false;
+    for (const zone of listDir(thermalDir).filter((z) => z.startsWith("thermal_zone"))) {
+      const zoneDir = path.join(thermalDir, zone);
+      const temp = readNumber(path.join(zoneDir, "temp"));
+      if (temp === null) continue;
+      for (const file of listDir(zoneDir)) {
+        const match = /^trip_point_(\d+)_type$/.exec(file);
+        if (!match) continue;
+        const type = readText(path.join(zoneDir, file));
+        if (type !== "passive" && type !== "hot" && type !== "critical") continue;
+        const trip = readNumber(path.join(zoneDir, `trip_point_${match[1]}_temp`));
+        if (trip !== null && trip > 0 && temp >= trip) overTrip = true;
+      }
+    }
+
+    const cpuDir = path.join(this.paths.sysRoot, "devices", "system", "cpu");
+    let throttleCount: number | null = null;
+    for (const cpu of listDir(cpuDir).filter((c) => /^cpu\d+$/.test(c))) {
+      const count = readNumber(path.join(cpuDir, cpu, "thermal_throttle", "package_throttle_count"));
+      if (count !== null) throttleCount = (throttleCount ?? 0) + count;
+    }
+    const countRose = throttleCount !== null && this.prevThrottleCount !== null && throttleCount > this.prevThrottleCount;
+    this.prevThrottleCount = throttleCount;
+
+    return overTrip || countRose;
+  }
+
+  /** Simulated upgrade against the local package lists — no network, no lock */
+  async pendingUpdates(): Promise<number | null | typeof NOT_APPLICABLE> {
+    if (!Bun.which("apt-get") && !Bun.which("dnf")) return NOT_APPLICABLE;
+
+    const apt = await run(["apt-get", "-s", "-o", "Debug::NoLocking=1", "upgrade"]);
+    if (apt && apt.exitCode === 0) return parseAptSimulation(apt.output);
+
+    // dnf exits 100 when updates are available, 0 when there are none
+    const dnf = await run(["dnf", "-q", "-C", "check-update"]);
+    if (dnf && (dnf.exitCode === 0 || dnf.exitCode === 100)) return parseDnfCheckUpdate(dnf.output);
+
+    return null;
+  }
+
+  /** journald entries at priority err (3) or worse from the last hour */
+  async eventLog(): Promise<EventLogMetrics | null | typeof NOT_APPLICABLE> {
+    if (!Bun.which("journalctl")) return NOT_APPLICABLE;
+
+    const result = await run([
+      "journalctl", "-p", "3", "--since", "1 hour ago", "-r", "-n", String(EVENT_LOG_MAX),
+      "-o", "json", "-q", "--no-pager",
+    ]);
+    if (!result || result.exitCode !== 0) return null;
+    return parseJournal(result.output);
+  }
+}
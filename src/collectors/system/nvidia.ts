@@ -0,0 +1,27 @@
+import type { GpuInfo } from "./index";
+
+/** Full GPU stats from nvidia-smi (same CLI on Windows and Linux); null without an NVIDIA driver */
+export async function queryNvidiaSmi(): Promise<GpuInfo | null> {
+  try {
+    const proc = Bun.spawn([
+      "nvidia-smi",
+      "--query-gpu=name,utilization.gpu,memory.used,memory.total,temperature.gpu",
+      "--format=csv,noheader,nounits",
+    ]);
+    const output = await new Response(proc.stdout).text();
+    const exitCode = await proc.exited;
+
+    if (exitCode !== 0 || !output.trim()) return null;
+
+    const parts = output.trim().split(",").map((s) => s.trim());
+    return {
+      name: parts[0] || null,
+      usage: parts[1] ? parseInt(parts[1], 10) : null,
+      memUsedMB: parts[2] ? parseInt(parts[2], 10) : null,
+      memTotalMB: parts[3] ? parseInt(parts[3], 10) : null,
+      temp: parts[4] ? parseInt(parts[4], 10) : null,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,165 @@
+import type { EventLogMetrics } from "../../types";
+import type { SystemBackend, GpuInfo, VolumeInfo, DiskIO } from "./index";
+import { queryNvidiaSmi } from "./nvidia";
+import { runPowerShell } from "../../powershell";
+
+const WMI_GPU_SCRIPT = `
+$gpu = Get-CimInstance Win32_VideoController | Where-Object { $_.Status -eq 'OK' } | Select-Object -First 1
+if (-not $gpu) { return }
+$name = $gpu.Name
+$vramMB = [math]::Round($gpu.AdapterRAM / 1MB)
+
+# Try GPU usage via performance counters
+$usage = $null
+$temp = $null
+try {
+  $eng = Get-CimInstance Win32_PerfFormattedData_GPUPerformanceCounters_GPUEngine -ErrorAction Stop |
+    Where-Object { $_.Name -match 'engtype_3D' } |
+    Measure-Object -Property UtilizationPercentage -Maximum
+  if ($eng.Maximum) { $usage = [math]::Round($eng.Maximum) }
+} catch {}
+
+# Try temp via WMI thermal zone (works on some systems)
+try {
+  $thermal = Get-CimInstance MSAcpi_ThermalZoneTemperature -Namespace root/wmi -ErrorAction Stop |
+    Select-Object -First 1
+  if ($thermal) { $temp = [math]::Round(($thermal.CurrentTemperature - 2732) / 10) }
+} catch {}
+
+# Try dedicated GPU memory used via perf counters
+$memUsed = $null
+try {
+  $mem = Get-CimInstance Win32_PerfFormattedData_GPUPerformanceCounters_GPUAdapterMemory -ErrorAction Stop |
+    Select-Object -First 1
+  if ($mem.DedicatedUsage) { $memUsed = [math]::Round($mem.DedicatedUsage / 1MB) }
+} catch {}
+
+Write-Output "$name|$vramMB|$usage|$memUsed|$temp"
+`;
+
+// The Windows Update search can take minutes, so it gets its own process rather than
+// holding up every other query in the shared helper
+async function spawnPowerShell(script: string): Promise<string> {
+  const proc = Bun.spawn(["powershell", "-NoProfile", "-Command", script]);
+  const output = await new Response(proc.stdout).text();
+  await proc.exited;
+  return output;
+}
+
+async function queryGpuWmi(): Promise<GpuInfo | null> {
+  try {
+    const output = await runPowerShell(WMI_GPU_SCRIPT);
+    if (!output.trim()) return null;
+
+    const parts = output.trim().split("|").map((s) => s.trim());
+    return {
+      name: parts[0] || null,
+      memTotalMB: parts[1] && parts[1] !== "" ? parseInt(parts[1], 10) : null,
+      usage: parts[2] && parts[2] !== "" ? parseInt(parts[2], 10) : null,
+      memUsedMB: parts[3] && parts[3] !== "" ? parseInt(parts[3], 10) : null,
+      temp: parts[4] && parts[4] !== "" ? parseInt(parts[4], 10) : null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** PowerShell/WMI, perf counters and the Windows Update COM API */
+export class WindowsSystemBackend implements SystemBackend {
+  readonly platform = "windows";
+
+  // GPU detection strategy:
+  // 1. nvidia-smi  → full stats (NVIDIA)
+  // 2. PowerShell WMI fallback → name, VRAM, usage via perf counters (AMD/Intel/any)
+  // Once a strategy succeeds on first poll, it's locked in to avoid re-probing.
+  private gpuStrategy: "nvidia" | "wmi" | null = null;
+
+  async gpu(): Promise<GpuInfo | null> {
+    if (this.gpuStrategy === "nvidia") return queryNvidiaSmi();
+    if (this.gpuStrategy === "wmi") return queryGpuWmi();
+
+    // First run: detect which strategy works
+    const nvidia = await queryNvidiaSmi();
+    if (nvidia) {
+      this.gpuStrategy = "nvidia";
+      return nvidia;
+    }
+    const wmi = await queryGpuWmi();
+    if (wmi) this.gpuStrategy = "wmi";
+    return wmi;
+  }
+
+  async volumes(): Promise<VolumeInfo[] | null> {
+    const output = await runPowerShell(
+      "Get-CimInstance Win32_LogicalDisk -Filter 'DriveType=3' | Select-Object DeviceID,VolumeName,FileSystem,Size,FreeSpace | ConvertTo-Json",
+    );
+
+    let disks = JSON.parse(output);
+    if (!Array.isArray(disks)) disks = [disks];
+
+    return disks.map((disk: any) => ({
+      mount: disk.DeviceID,
+      label: disk.VolumeName || null,
+      fsType: disk.FileSystem || null,
+      totalBytes: disk.Size || 0,
+      freeBytes: disk.FreeSpace || 0,
+    }));
+  }
+
+  async diskIO(): Promise<DiskIO | null> {
+    // One line per sample: "\\host\physicaldisk(_total)\disk read bytes/sec|12.3"
+    const output = await runPowerShell(
+      `$c = Get-Counter '\\PhysicalDisk(_Total)\\Disk Read Bytes/sec','\\PhysicalDisk(_Total)\\Disk Write Bytes/sec','\\LogicalDisk(*)\\Disk Read Bytes/sec','\\LogicalDisk(*)\\Disk Write Bytes/sec' -ErrorAction Stop; foreach ($s in $c.CounterSamples) { Write-Output "$($s.Path)|$([math]::Round($s.CookedValue/1MB,1))" }`,
+    );
+
+    const io: DiskIO = { readMBps: 0, writeMBps: 0, volumes: {} };
+    let sawTotal = false;
+    for (const line of output.split("\n")) {
+      const match = /\\(physicaldisk|logicaldisk)\(([^)]+)\)\\disk (read|write) bytes\/sec\|([\d.]+)/i.exec(line.trim());
+      if (!match) continue;
+      const [, counter, instance, direction, value] = match;
+      const mbps = parseFloat(value) || 0;
+      const key = direction.toLowerCase() === "read" ? "readMBps" : "writeMBps";
+
+      if (counter.toLowerCase() === "physicaldisk") {
+        io[key] = mbps;
+        sawTotal = true;
+      } else if (/^[a-z]:$/i.test(instance)) {
+        // Skip _Total and unlettered HarddiskVolumeN instances
+        const mount = instance.toUpperCase();
+        io.volumes[mount] ??= { readMBps: 0, writeMBps: 0 };
+        io.volumes[mount][key] = mbps;
+      }
+    }
+    return sawTotal ? io : null;
+  }
+
+  async cpuThrottled(): Promise<boolean | null> {
+    const output = await runPowerShell(
+      `$c = Get-Counter '\\Processor Information(_Total)\\% Processor Performance' -ErrorAction Stop; Write-Output $c.CounterSamples[0].CookedValue`,
+    );
+    const cpuPerf = parseFloat(output.trim());
+    return !isNaN(cpuPerf) && cpuPerf < 95;
+  }
+
+  async pendingUpdates(): Promise<number | null> {
+    const output = await spawnPowerShell(
+      `try { $s = New-Object -ComObject Microsoft.Update.Session; $u = $s.CreateUpdateSearcher().Search('IsInstalled=0').Updates.Count; Write-Output $u } catch { Write-Output 0 }`,
+    );
+    return parseInt(output.trim(), 10) || 0;
+  }
+
+  async eventLog(): Promise<EventLogMetrics | null> {
+    const output = await runPowerShell(
+      `$evts = Get-WinEvent -FilterHashtable @{LogName='Application';Level=1,2;StartTime=(Get-Date).AddHours(-1)} -MaxEvents 10 -ErrorAction SilentlyContinue; if ($evts) { $c = $evts.Count; $last = $evts[0]; Write-Output "$c|$($last.TimeCreated.ToString('yyyy-MM-dd HH:mm:ss'))|$($last.Message.Substring(0,[math]::Min(200,$last.Message.Length)))" } else { Write-Output "0||" }`,
+    );
+
+    const parts = output.trim().split("|");
+    const count = parseInt(parts[0], 10) || 0;
+    return {
+      count,
+      lastTime: parts[1] && parts[1].trim() ? parts[1].trim() : null,
+      lastMessage: parts[2] && parts[2].trim() ? parts[2].trim().substring(0, 200) : null,
+    };
+  }
+}
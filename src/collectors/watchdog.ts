@@ -0,0 +1,27 @@
+import * as os from "os";
+import type { WatchdogMetrics } from "../types";
+import { collectHelperMetrics } from "../powershell";
+
+// The watchdog's own footprint, so collection overhead shows up next to what it measures
+
+let prevUsage: { ts: number; cpu: NodeJS.CpuUsage } | null = null;
+
+/** CPU is of the whole machine (like system.cpuUsage), averaged since the previous call */
+export function collectWatchdog(): WatchdogMetrics {
+  const cores = os.cpus().length || 1;
+  const now = Date.now();
+  const cpu = process.cpuUsage();
+
+  let cpuPercent = 0;
+  if (prevUsage && now > prevUsage.ts) {
+    const usedMs = (cpu.user - prevUsage.cpu.user + cpu.system - prevUsage.cpu.system) / 1000;
+    cpuPercent = Math.round((usedMs / (now - prevUsage.ts) / cores) * 1000) / 10;
+  }
+  prevUsage = { ts: now, cpu };
+
+  return {
+    cpuPercent,
+    memoryMB: Math.round(process.memoryUsage.rss() / (1024 * 1024)),
+    helper: process.platform === "win32" ? collectHelperMetrics(cores) : null,
+  };
+}
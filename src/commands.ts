@@ -2,14 +2,91 @@ import type { CommandPayload, CommandType, AckPayload, AckStatus } from "./types
 import { publishAck } from "./mqtt";
 import { validateLease, type LeaseManager } from "./lease";
 import type { WatchdogEventEmitter } from "./events";
+import type { Caller } from "./auth";
+import { verifyCommand } from "./signing";
 
 // --- Command definitions ---
 
+export type ArgType = "string" | "number" | "integer" | "boolean" | "object" | "array";
+
+export interface ArgField {
+  type: ArgType;
+  required?: boolean;
+  description?: string;
+  min?: number;
+  max?: number;
+  enum?: readonly (string | number)[] | (() => (string | number)[]);   // function for values known only at runtime
+}
+
+export type ArgSchema = Record<string, ArgField>;
+
+/** Passed to handlers so long-running commands can report before they finish */
+export interface CommandContext {
+  /** ACCEPTED — the work has started; APPLIED/FAILED follows */
+  accept(message?: string, details?: Record<string, any>): void;
+  /** PROGRESS — an intermediate step */
+  progress(message: string, details?: Record<string, any>): void;
+  /** Aborted when the command times out or is cancelled */
+  signal: AbortSignal;
+  /** Sender of the command */
+  clientId: string;
+}
+
 export interface CommandDef {
   type: CommandType;
+  description: string;
   requiresLease: boolean;
   localBypass: boolean;
-  handler: (args: Record<string, any>) => Promise<{ message: string; details: Record<string, any> }>;
+  leaseOverHttp?: boolean;   // non-loopback HTTP callers need the lease even if MQTT clients don't
+  args: ArgSchema;
+  timeoutMs?: number;   // FAILED if the handler hasn't finished by then (default 30s)
+  resource?: string;    // commands on the same resource run one at a time, in arrival order
+  handler: (args: Record<string, any>, ctx: CommandContext) => Promise<{ message: string; details: Record<string, any> }>;
+}
+
+/** Registry entry as returned by LIST_COMMANDS (enums resolved, handler omitted) */
+export interface CommandInfo {
+  type: CommandType;
+  description: string;
+  requiresLease: boolean;
+  localBypass: boolean;
+  leaseOverHttp: boolean;
+  resource: string | null;
+  args: Record<string, Omit<ArgField, "enum"> & { enum?: (string | number)[] }>;
+}
+
+/** A queued or running command, as exposed over WebSocket and /api/commands */
+export interface QueueEntry {
+  commandId: string;
+  type: CommandType;
+  clientId: string;
+  resource: string | null;
+  state: "queued" | "running";
+  enqueuedAt: number;
+  startedAt: number | null;
+}
+
+/** One handled command from receipt to its final ack, for tracing */
+export interface CommandTrace {
+  commandId: string;
+  type: CommandType;
+  clientId: string;
+  isLocal: boolean;
+  startTs: number;
+  endTs: number;
+  status: AckStatus;     // final ack
+  message: string;
+  acks: AckPayload[];    // every ack sent on the way, final one included
+}
+
+interface QueueItem extends QueueEntry {
+  controller: AbortController;
+  startTurn: () => void;
+}
+
+export interface ArgError {
+  field: string;
+  message: string;
 }
 
 // Legacy action → CommandType mapping
@@ -24,6 +101,85 @@ const LEGACY_ACTION_MAP: Record<string, CommandType> = {
   "set-stream-quality": "SET_STREAM_QUALITY",
 };
 
+// --- Argument validation ---
+
+function resolveEnum(field: ArgField): (string | number)[] | undefined {
+  if (!field.enum) return undefined;
+  return typeof field.enum === "function" ? field.enum() : [...field.enum];
+}
+
+function validateArgs(schema: ArgSchema, args: unknown): ArgError[] {
+  if (args === undefined || args === null) args = {};
+  if (typeof args !== "object" || Array.isArray(args)) return [{ field: "args", message: "must be an object" }];
+
+  const errors: ArgError[] = [];
+  const values = args as Record<string, any>;
+
+  for (const key of Object.keys(values)) {
+    if (!schema[key]) errors.push({ field: key, message: "unknown argument" });
+  }
+
+  for (const [key, field] of Object.entries(schema)) {
+    const value = values[key];
+    if (value === undefined || value === null) {
+      if (field.required) errors.push({ field: key, message: "is required" });
+      continue;
+    }
+
+    const typeOk =
+      field.type === "integer" ? Number.isInteger(value) :
+      field.type === "number" ? typeof value === "number" && Number.isFinite(value) :
+      field.type === "array" ? Array.isArray(value) :
+      field.type === "object" ? typeof value === "object" && !Array.isArray(value) :
+      typeof value === field.type;
+    if (!typeOk) {
+      const article = ["integer", "object", "array"].includes(field.type) ? "an" : "a";
+      errors.push({ field: key, message: `must be ${article} ${field.type}` });
+      continue;
+    }
+
+    if (field.min !== undefined && value < field.min) errors.push({ field: key, message: `must be >= ${field.min}` });
+    if (field.max !== undefined && value > field.max) errors.push({ field: key, message: `must be <= ${field.max}` });
+
+    const allowed = resolveEnum(field);
+    if (allowed && !allowed.includes(value)) {
+      errors.push({ field: key, message: `must be one of ${allowed.join(", ")}` });
+    }
+  }
+
+  return errors;
+}
+
+// --- Execution helpers ---
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const ABANDON_AFTER_MS = 30_000;   // how long a handler that ignores the abort keeps its resource
+
+/** Abort reason carrying the final ack status (timeout → FAILED, cancel → CANCELLED) */
+class CommandAbort extends Error {
+  constructor(readonly status: "FAILED" | "CANCELLED", message: string) {
+    super(message);
+  }
+}
+
+/** Poll `check` until it returns true. Rejects if the signal aborts first. */
+export function waitUntil(check: () => boolean, signal: AbortSignal, intervalMs = 1000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(new Error("Aborted"));
+    if (check()) return resolve();
+    const timer = setInterval(() => {
+      if (check()) {
+        clearInterval(timer);
+        resolve();
+      }
+    }, intervalMs);
+    signal.addEventListener("abort", () => {
+      clearInterval(timer);
+      reject(new Error("Aborted"));
+    }, { once: true });
+  });
+}
+
 // --- Idempotency store ---
 
 interface IdempotencyEntry {
@@ -52,6 +208,11 @@ export class CommandProcessor {
   private leaseManager: LeaseManager;
   private eventEmitter: WatchdogEventEmitter;
   private onAck: (ack: AckPayload) => void;
+  private inFlight = new Map<string, Promise<AckPayload>>();   // commandId → final ack
+  private queue: QueueItem[] = [];                               // arrival order, all resources
+  private queueListener: ((queue: QueueEntry[]) => void) | null = null;
+  private traceListener: ((trace: CommandTrace) => void) | null = null;
+  private traceAcks = new Map<string, AckPayload[]>();          // commandId → acks sent so far
 
   constructor(
     wallId: string,
@@ -69,8 +230,99 @@ export class CommandProcessor {
     this.registry.set(def.type, def);
   }
 
-  /** Handle a command from MQTT command/{clientId} topic */
-  async handle(payload: CommandPayload, clientId: string, isLocal: boolean): Promise<AckPayload> {
+  /** Called whenever a command is queued, starts or finishes */
+  onQueueChange(listener: (queue: QueueEntry[]) => void): void {
+    this.queueListener = listener;
+  }
+
+  /** Called once per handled command with its acks, after the final one */
+  onCommandFinished(listener: (trace: CommandTrace) => void): void {
+    this.traceListener = listener;
+  }
+
+  getQueue(): QueueEntry[] {
+    return this.queue.map(({ controller, startTurn, ...entry }) => entry);
+  }
+
+  /** Abort a queued or running command. Throws if it isn't in the queue. */
+  cancel(commandId: string, by: string): QueueEntry {
+    const item = this.queue.find((q) => q.commandId === commandId);
+    if (!item) throw new Error(`Command ${commandId} is not queued or running`);
+    console.log(`[commands] ${item.type} ${commandId} (${item.state}) cancelled by ${by}`);
+    item.controller.abort(new CommandAbort("CANCELLED", `Cancelled by ${by}`));
+    const { controller, startTurn, ...entry } = item;
+    return entry;
+  }
+
+  /** Check args against a registered command's schema without running it */
+  validate(type: CommandType, args: Record<string, any>): ArgError[] {
+    const def = this.registry.get(type);
+    if (!def) return [{ field: "type", message: `unknown command ${type}` }];
+    return validateArgs(def.args, args);
+  }
+
+  /**
+   * True if only the lease holder can run the command — no local or internal bypass
+   * (STOP_VUOS, QUIT_WATCHDOG). The watchdog can't run these on its own behalf.
+   */
+  requiresLeaseHolder(type: CommandType): boolean {
+    const def = this.registry.get(type);
+    return !!def && def.requiresLease && !def.localBypass;
+  }
+
+  /** Registered command types. Safe to call from an arg enum, unlike listCommands which resolves them all. */
+  commandTypes(): CommandType[] {
+    return [...this.registry.keys()];
+  }
+
+  /** Registered commands with their argument schemas, for dashboards to render forms */
+  listCommands(): CommandInfo[] {
+    return [...this.registry.values()].map((def) => ({
+      type: def.type,
+      description: def.description,
+      requiresLease: def.requiresLease,
+      localBypass: def.localBypass,
+      leaseOverHttp: def.leaseOverHttp ?? false,
+      resource: def.resource ?? null,
+      args: Object.fromEntries(
+        Object.entries(def.args).map(([key, field]) => [key, { ...field, enum: resolveEnum(field) }]),
+      ),
+    }));
+  }
+
+  /**
+   * Handle a command from MQTT command/{clientId} topic. Untrusted senders
+   * (MQTT, legacy control) must pass signature verification.
+   */
+  async handle(payload: CommandPayload, clientId: string, isLocal: boolean, trusted = isLocal, remoteHttp = false): Promise<AckPayload> {
+    // A redelivery that joins a running command is traced by the original only
+    const startTs = Date.now();
+    const acks: AckPayload[] = [];
+    const tracing = this.traceListener !== null && !this.traceAcks.has(payload.commandId);
+    if (tracing) this.traceAcks.set(payload.commandId, acks);
+
+    try {
+      const ack = await this.process(payload, clientId, isLocal, trusted, remoteHttp);
+      if (tracing) {
+        this.traceListener?.({
+          commandId: payload.commandId,
+          type: payload.type,
+          clientId,
+          isLocal,
+          startTs,
+          endTs: Date.now(),
+          status: ack.status,
+          message: ack.message,
+          acks,
+        });
+      }
+      return ack;
+    } finally {
+      if (tracing) this.traceAcks.delete(payload.commandId);
+    }
+  }
+
+  private async process(payload: CommandPayload, clientId: string, isLocal: boolean, trusted: boolean, remoteHttp: boolean): Promise<AckPayload> {
     this.eventEmitter.emitLifecycle("COMMAND_RECEIVED", "INFO", {
       type: payload.type,
       commandId: payload.commandId,
@@ -85,6 +337,10 @@ export class CommandProcessor {
       return existing.ack;
     }
 
+    // Redelivered while still running — wait for the same outcome
+    const running = this.inFlight.get(payload.commandId);
+    if (running) return running;
+
     // 2. TTL check
     if (payload.ts + payload.ttlMs < Date.now()) {
       const ack = this.makeAck(payload.commandId, "EXPIRED", "Command TTL exceeded", {});
@@ -92,7 +348,23 @@ export class CommandProcessor {
       return ack;
     }
 
-    // 3. Lookup command
+    // 3. Sender verification (signature + replay)
+    if (!trusted) {
+      const reason = verifyCommand(payload, clientId, this.wallId);
+      if (reason) {
+        this.eventEmitter.emitLifecycle("COMMAND_AUTH_FAILED", "WARN", {
+          type: payload.type,
+          commandId: payload.commandId,
+          clientId,
+          reason,
+        });
+        const ack = this.makeAck(payload.commandId, "REJECTED", reason, {});
+        this.sendAck(clientId, ack);
+        return ack;
+      }
+    }
+
+    // 4. Lookup command
     const def = this.registry.get(payload.type);
     if (!def) {
       const ack = this.makeAck(payload.commandId, "REJECTED", `Unknown command: ${payload.type}`, {});
@@ -100,8 +372,9 @@ export class CommandProcessor {
       return ack;
     }
 
-    // 4. Lease check
-    const leaseResult = validateLease(this.leaseManager, clientId, isLocal, def);
+    // 5. Lease check
+    const leaseDef = remoteHttp && def.leaseOverHttp ? { ...def, requiresLease: true } : def;
+    const leaseResult = validateLease(this.leaseManager, clientId, isLocal, leaseDef);
     if (!leaseResult.allowed) {
       if (isLocal && def.localBypass) {
         this.eventEmitter.emitLifecycle("LOCAL_OVERRIDE_USED", "WARN", {
@@ -115,24 +388,170 @@ export class CommandProcessor {
       }
     }
 
-    // 5. Ack RECEIVED
+    // 6. Argument validation
+    const argErrors = validateArgs(def.args, payload.args);
+    if (argErrors.length > 0) {
+      const message = `Invalid arguments: ${argErrors.map((e) => `${e.field} ${e.message}`).join("; ")}`;
+      const ack = this.makeAck(payload.commandId, "REJECTED", message, { errors: argErrors });
+      this.sendAck(clientId, ack);
+      return ack;
+    }
+
+    // 7. Ack RECEIVED
     const receivedAck = this.makeAck(payload.commandId, "RECEIVED", "Command received", {});
     this.sendAck(clientId, receivedAck);
 
-    // 6. Execute
+    // 8. Queue behind other work on the same resource, then execute
+    const execution = this.schedule(def, payload, clientId);
+    this.inFlight.set(payload.commandId, execution);
     try {
-      const result = await def.handler(payload.args);
-      const ack = this.makeAck(payload.commandId, "APPLIED", result.message, result.details);
-      idempotencyStore.set(payload.commandId, { ack, expiresAt: Date.now() + IDEMPOTENCY_TTL_MS });
-      this.sendAck(clientId, ack);
-      return ack;
+      return await execution;
+    } finally {
+      this.inFlight.delete(payload.commandId);
+    }
+  }
+
+  private notifyQueue(): void {
+    this.queueListener?.(this.getQueue());
+  }
+
+  /** True if nothing ahead of the item holds its resource */
+  private isTurn(item: QueueItem): boolean {
+    if (item.resource === null) return true;
+    for (const other of this.queue) {
+      if (other === item) return true;
+      if (other.resource === item.resource) return false;
+    }
+    return true;
+  }
+
+  private async schedule(def: CommandDef, payload: CommandPayload, clientId: string): Promise<AckPayload> {
+    const controller = new AbortController();
+    let startTurn = () => {};
+    const turn = new Promise<void>((resolve) => (startTurn = resolve));
+
+    const item: QueueItem = {
+      commandId: payload.commandId,
+      type: payload.type,
+      clientId,
+      resource: def.resource ?? null,
+      state: "queued",
+      enqueuedAt: Date.now(),
+      startedAt: null,
+      controller,
+      startTurn,
+    };
+    this.queue.push(item);
+
+    let settled: Promise<void> = Promise.resolve();
+    try {
+      if (!this.isTurn(item)) {
+        const ahead = this.queue.filter((q) => q !== item && q.resource === item.resource).length;
+        this.sendAck(clientId, this.makeAck(payload.commandId, "PROGRESS", `Queued behind ${ahead} command(s) on ${item.resource}`, { queuePosition: ahead }));
+        this.notifyQueue();
+        await Promise.race([turn, this.abortedPromise(controller.signal)]);
+      }
+      item.state = "running";
+      item.startedAt = Date.now();
+      this.notifyQueue();
+      const result = await this.execute(def, payload, clientId, controller);
+      settled = result.settled;
+      return result.ack;
     } catch (err: any) {
-      const ack = this.makeAck(payload.commandId, "FAILED", err.message || "Execution failed", {});
+      // Cancelled while still queued
+      const status = err instanceof CommandAbort ? err.status : "FAILED";
+      const ack = this.makeAck(payload.commandId, status, err.message || "Execution failed", {});
       this.sendAck(clientId, ack);
       return ack;
+    } finally {
+      // The final ack is out, but a handler that ignored the abort may still be at work —
+      // keep its resource until it returns (or is abandoned) so the next command can't interleave with it
+      settled.then(() => this.release(item));
     }
   }
 
+  private release(item: QueueItem): void {
+    this.queue = this.queue.filter((q) => q !== item);
+    for (const next of this.queue) {
+      if (next.state === "queued" && this.isTurn(next)) next.startTurn();
+    }
+    this.notifyQueue();
+  }
+
+  private abortedPromise(signal: AbortSignal): Promise<never> {
+    return new Promise((_, reject) => {
+      if (signal.aborted) return reject(signal.reason);
+      signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+    });
+  }
+
+  /**
+   * Run a handler under its timeout; only the first final ack counts. `settled`
+   * resolves once the handler itself has returned, which may be after the ack —
+   * but no later than ABANDON_AFTER_MS after it.
+   */
+  private async execute(
+    def: CommandDef,
+    payload: CommandPayload,
+    clientId: string,
+    controller: AbortController,
+  ): Promise<{ ack: AckPayload; settled: Promise<void> }> {
+    const timeoutMs = def.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    let done = false;
+
+    const ctx: CommandContext = {
+      accept: (message = "Command accepted", details = {}) => {
+        if (!done) this.sendAck(clientId, this.makeAck(payload.commandId, "ACCEPTED", message, details));
+      },
+      progress: (message, details = {}) => {
+        if (!done) this.sendAck(clientId, this.makeAck(payload.commandId, "PROGRESS", message, details));
+      },
+      signal: controller.signal,
+      clientId,
+    };
+
+    const timer = setTimeout(() => {
+      controller.abort(new CommandAbort("FAILED", `Timed out after ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+
+    let running: ReturnType<CommandDef["handler"]>;
+    try {
+      running = def.handler(payload.args ?? {}, ctx);
+    } catch (err) {
+      running = Promise.reject(err);
+    }
+    let handlerDone = false;
+    const settled = running.then(() => { handlerDone = true; }, () => { handlerDone = true; });
+
+    let ack: AckPayload;
+    try {
+      const result = await Promise.race([running, this.abortedPromise(controller.signal)]);
+      ack = this.makeAck(payload.commandId, "APPLIED", result.message, result.details);
+      idempotencyStore.set(payload.commandId, { ack, expiresAt: Date.now() + IDEMPOTENCY_TTL_MS });
+    } catch (err: any) {
+      // Handlers that saw the abort rethrow their own error — report the abort reason instead
+      const reason = controller.signal.aborted ? controller.signal.reason : err;
+      const status = reason instanceof CommandAbort ? reason.status : "FAILED";
+      ack = this.makeAck(payload.commandId, status, reason?.message || "Execution failed", {});
+    } finally {
+      clearTimeout(timer);
+      done = true;
+    }
+    this.sendAck(clientId, ack);
+    if (handlerDone || !def.resource) return { ack, settled };
+
+    console.log(`[commands] ${payload.type} ${payload.commandId} still running after ${ack.status} — holding ${def.resource} until it returns`);
+    let abandonTimer: Timer | undefined;
+    const abandoned = new Promise<void>((resolve) => {
+      abandonTimer = setTimeout(() => {
+        console.error(`[commands] ${payload.type} ${payload.commandId} ignored the abort for ${ABANDON_AFTER_MS / 1000}s — abandoning it and releasing ${def.resource}`);
+        resolve();
+      }, ABANDON_AFTER_MS);
+    });
+    settled.then(() => clearTimeout(abandonTimer));
+    return { ack, settled: Promise.race([settled, abandoned]) };
+  }
+
   /** Handle a legacy control message ({"action":"restart-vuos"}) */
   async handleLegacy(payload: Record<string, any>): Promise<AckPayload | null> {
     const action = payload.action as string;
@@ -144,30 +563,40 @@ export class CommandProcessor {
       return null;
     }
 
-    const commandPayload: CommandPayload = {
-      schema: "vu.watchdog.command.v1",
-      ts: Date.now(),
-      commandId: `legacy-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-      ttlMs: 15_000,
-      type: commandType,
-      args: payload.args || {},
-    };
+    return this.handle(this.makeCommand("legacy", commandType, payload.args || {}), "legacy", false);
+  }
+
+  /**
+   * Handle a command from the HTTP API or WebSocket. Only loopback callers are
+   * local; anyone else acts as `http-{name}` and is subject to the lease, including
+   * for `leaseOverHttp` commands that MQTT clients may send without it.
+   */
+  async handleLocal(type: CommandType, args: Record<string, any> = {}, caller?: Caller): Promise<AckPayload> {
+    if (caller && !caller.isLoopback) {
+      return this.handle(this.makeCommand("http", type, args), `http-${caller.name}`, false, true, true);
+    }
+    return this.handle(this.makeCommand("local", type, args), "local-api", true);
+  }
 
-    return this.handle(commandPayload, "legacy", false);
+  /** Handle a `Command/{TYPE}` metric from a Sparkplug NCMD; the host application acts as `clientId` */
+  async handleSparkplug(type: CommandType, args: Record<string, any>, clientId: string): Promise<AckPayload> {
+    return this.handle(this.makeCommand("spb", type, args), clientId, false);
   }
 
-  /** Handle a command from HTTP API or WebSocket (always local) */
-  async handleLocal(type: CommandType, args: Record<string, any> = {}): Promise<AckPayload> {
-    const commandPayload: CommandPayload = {
+  /** Handle a command raised by the watchdog itself (e.g. remediation). Treated as local. */
+  async handleInternal(type: CommandType, args: Record<string, any>, source: string): Promise<AckPayload> {
+    return this.handle(this.makeCommand(source, type, args), source, true);
+  }
+
+  private makeCommand(prefix: string, type: CommandType, args: Record<string, any>): CommandPayload {
+    return {
       schema: "vu.watchdog.command.v1",
       ts: Date.now(),
-      commandId: `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      commandId: `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
       ttlMs: 15_000,
       type,
       args,
     };
-
-    return this.handle(commandPayload, "local-api", true);
   }
 
   private makeAck(commandId: string, status: AckStatus, message: string, details: Record<string, any>): AckPayload {
@@ -182,6 +611,7 @@ export class CommandProcessor {
   }
 
   private sendAck(clientId: string, ack: AckPayload): void {
+    this.traceAcks.get(ack.commandId)?.push(ack);
     // Publish to MQTT
     publishAck(this.wallId, clientId, ack);
     // Broadcast to WebSocket
@@ -1,4 +1,5 @@
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
 
 export interface AppConfig {
@@ -13,6 +14,7 @@ const VUOS_CANDIDATES = [
 ];
 
 function detectVuosDir(): string {
+  if (process.env.VUOS_DIR) return process.env.VUOS_DIR;
   for (const dir of VUOS_CANDIDATES) {
     if (fs.existsSync(path.join(dir, "app.config.json"))) return dir;
   }
@@ -22,9 +24,56 @@ function detectVuosDir(): string {
 }
 
 export const VUOS_DIR = detectVuosDir();
+
+const IS_WINDOWS = process.platform === "win32";
+
+/** Vu One OS executable and the process name it runs under (Unity's Linux player is "<name>.x86_64") */
+export const VUOS_EXE = process.env.VUOS_EXE
+  || path.resolve(VUOS_DIR, "..", "..", "..", IS_WINDOWS ? "Vu One.exe" : "Vu One.x86_64");
+export const VUOS_PROCESS_NAME = process.env.VUOS_PROCESS_NAME || (IS_WINDOWS ? "Vu One" : "Vu One.x86_64");
+export const SERVER_PROCESS_NAME = process.env.SERVER_PROCESS_NAME || "Vu_OS_Server*";
 const APP_CONFIG_PATH = path.join(VUOS_DIR, "app.config.json");
 const SYSTEM_CONFIG_PATH = path.join(VUOS_DIR, "system.config.json");
 
+/** Watchdog-owned state (history, queues) — the Vu One install dir may not be writable */
+export const DATA_DIR = process.env.WATCHDOG_DATA_DIR || path.join(process.env.PROGRAMDATA || os.homedir(), "VuWatchdog");
+
+/** Create DATA_DIR on first use and return a path inside it */
+export function dataPath(name: string): string {
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  return path.join(DATA_DIR, name);
+}
+
+/** Broker presets and API credentials (secrets encrypted at rest) — see credentials.ts */
+export const CREDENTIALS_PATH = process.env.WATCHDOG_CREDENTIALS_PATH || path.join(DATA_DIR, "credentials.json");
+
+/**
+ * Volumes that get their own DISK_FULL:<name> / DISK_HIGH:<name> conditions: name → any
+ * path on the volume. The Vu One install drive is always watched; WATCHDOG_WATCHED_VOLUMES
+ * adds more as "media=D:\VuMedia;cache=E:\".
+ */
+export const WATCHED_VOLUMES: Record<string, string> = parseWatchedVolumes(process.env.WATCHDOG_WATCHED_VOLUMES || "");
+
+function parseWatchedVolumes(raw: string): Record<string, string> {
+  const volumes: Record<string, string> = { install: VUOS_DIR };
+  for (const entry of raw.split(";")) {
+    const eq = entry.indexOf("=");
+    if (eq < 0) continue;
+    const name = entry.slice(0, eq).trim();
+    const dir = entry.slice(eq + 1).trim();
+    // The name ends up in a condition id and a rule expression path
+    if (!/^\w+$/.test(name) || !dir) {
+      console.error(`[config] Ignoring watched volume "${entry.trim()}" — expected name=path with a name of letters, digits or _`);
+      continue;
+    }
+    volumes[name] = dir;
+  }
+  return volumes;
+}
+
+/** Health condition rules (optional, hot-reloaded) — see rules.ts */
+export const RULES_PATH = process.env.WATCHDOG_RULES_PATH || path.join(VUOS_DIR, "watchdog.rules.json");
+
 /** Parse OSC port from system.config.json oscIp field (e.g. "10.150.10.201:1231") */
 export function getOscPort(): number {
   try {
@@ -0,0 +1,532 @@
+/**
+ * Broker presets and third-party API credentials, loaded from CREDENTIALS_PATH.
+ *
+ * File format:
+ *   {
+ *     "brokers": [{ "id", "label", "url", "wsUrl", "username", "password", "tokenSecret", "tokenTtlSec" }],
+ *     "turn": { "cloudflareKeyId", "cloudflareApiToken", "meteredApiKey" },
+ *     "walls": { "<wallId>": { "brokers": [{ "id", ...fields to override }], "priority": ["dev", ...] } },
+ *     "api": { "users": [{ "name", "role": "viewer" | "operator", "password", "token" }] },
+ *     "commandKeys": [{ "clientId", "alg": "hmac-sha256" | "ed25519", "key" }],
+ *     "notifications": [{ "id", "kind": "json" | "slack" | "teams" | "pagerduty", "url", "routingKey",
+ *                         "minSeverity", "types", "throttleSec" }]
+ *   }
+ *
+ * Secret fields may be written in plaintext; they are sealed (secrets.ts) and the
+ * file rewritten on load. Dashboards never see passwords — brokers with a
+ * tokenSecret get a short-lived read-only JWT instead.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { CREDENTIALS_PATH } from "./config";
+import { seal, unseal, isSealed } from "./secrets";
+import type { EventSeverity } from "./types";
+
+export interface BrokerConfig {
+  id: string;
+  label: string;
+  url: string;          // server-side (mqtts:// or mqtt://)
+  wsUrl: string;        // dashboard (wss://)
+  username: string;
+  password: string;
+  tokenSecret: string;  // HS256 key shared with the broker's JWT auth; empty = no dashboard token
+  tokenTtlSec: number;
+}
+
+export type BrokerSpec = Partial<BrokerConfig> & { id: string };
+
+export interface TurnSecrets {
+  cloudflareKeyId: string;
+  cloudflareApiToken: string;
+  meteredApiKey: string;
+}
+
+export type ApiRole = "viewer" | "operator";
+
+/** Local HTTP/WebSocket API user — Basic auth with name/password, or Bearer token */
+export interface ApiUser {
+  name: string;
+  role: ApiRole;
+  password: string;
+  token: string;
+}
+
+export type CommandKeyAlg = "hmac-sha256" | "ed25519";
+
+/** Trusted MQTT command sender — HMAC shared secret, or Ed25519 public key (PEM or base64 raw) */
+export interface CommandKey {
+  clientId: string;
+  alg: CommandKeyAlg;
+  key: string;
+}
+
+export type NotificationKind = "json" | "slack" | "teams" | "pagerduty";
+
+/** Outbound event notification channel — the webhook URL and routing key are secrets */
+export interface NotificationChannel {
+  id: string;
+  kind: NotificationKind;
+  url: string;
+  routingKey: string;          // PagerDuty Events API v2 integration key
+  minSeverity: EventSeverity;
+  types: string[];             // event types, exact or PREFIX*; empty = all
+  throttleSec: number;         // repeats of one event type within this window are held back
+}
+
+interface WallOverride {
+  brokers?: BrokerSpec[];
+  priority?: string[];
+}
+
+interface CredentialsFile {
+  brokers?: BrokerSpec[];
+  turn?: Partial<TurnSecrets>;
+  walls?: Record<string, WallOverride>;
+  api?: { users?: Partial<ApiUser>[] };
+  commandKeys?: Partial<CommandKey>[];
+  notifications?: Partial<NotificationChannel>[];
+}
+
+/** Broker as shown by the preset API — secrets reduced to flags */
+export interface BrokerSummary {
+  id: string;
+  label: string;
+  url: string;
+  wsUrl: string;
+  username: string;
+  hasPassword: boolean;
+  tokenAuth: boolean;
+  tokenTtlSec: number;
+}
+
+/** Broker as sent to dashboard clients */
+export interface DashboardBroker {
+  id: string;
+  label: string;
+  url: string;
+  username?: string;
+  token?: string;
+  tokenExpiresAt?: number;
+}
+
+const DEFAULT_TOKEN_TTL_SEC = 15 * 60;
+const BROKER_SECRET_FIELDS = ["password", "tokenSecret"] as const;
+const TURN_SECRET_FIELDS = ["cloudflareApiToken", "meteredApiKey"] as const;
+const API_SECRET_FIELDS = ["password", "token"] as const;
+const API_ROLES: ApiRole[] = ["viewer", "operator"];
+const COMMAND_KEY_ALGS: CommandKeyAlg[] = ["hmac-sha256", "ed25519"];
+const NOTIFICATION_SECRET_FIELDS = ["url", "routingKey"] as const;
+const NOTIFICATION_KINDS: NotificationKind[] = ["json", "slack", "teams", "pagerduty"];
+const EVENT_SEVERITIES: EventSeverity[] = ["INFO", "WARN", "ERROR", "CRITICAL"];
+const PAGERDUTY_EVENTS_URL = "https://events.pagerduty.com/v2/enqueue";
+const DEFAULT_THROTTLE_SEC = 5 * 60;
+const BROKER_ID_PATTERN = /^[\w.-]+$/;
+const URL_PATTERN = /^(mqtts?|wss?):\/\/\S+$/;
+
+let file: CredentialsFile = {};
+let wallId = "";
+let brokers: BrokerConfig[] = [];
+let turn: TurnSecrets = { cloudflareKeyId: "", cloudflareApiToken: "", meteredApiKey: "" };
+let apiUsers: ApiUser[] = [];
+let commandKeys: CommandKey[] = [];
+let notificationChannels: NotificationChannel[] = [];
+let readOnly = false;   // file exists but couldn't be parsed — never overwrite it
+
+// Stock presets and the environment variables that seed them
+const STOCK_PRESET_ENV: Record<string, string> = { railway: "MQTT_", dev: "MQTT2_", prod: "MQTT3_" };
+
+/** First run: presets without credentials, filled from the legacy environment variables if set */
+function seedFromEnv(): CredentialsFile {
+  const env = process.env;
+  return {
+    brokers: [
+      {
+        id: "railway",
+        label: "RND",
+        url: env.MQTT_BROKER_URL || "mqtt://tramway.proxy.rlwy.net:20979",
+        wsUrl: env.MQTT_BROKER_WS_URL || "wss://mqtt.vu.studio/mqtt",
+        username: env.MQTT_USERNAME || "",
+        password: env.MQTT_PASSWORD || "",
+      },
+      {
+        id: "dev",
+        label: "DEV (EMQX)",
+        url: env.MQTT2_BROKER_URL || "mqtts://ic7c613e.ala.dedicated.aws.emqxcloud.com:8883",
+        wsUrl: env.MQTT2_BROKER_WS_URL || "wss://ic7c613e.ala.dedicated.aws.emqxcloud.com:8084/mqtt",
+        username: env.MQTT2_USERNAME || "",
+        password: env.MQTT2_PASSWORD || "",
+      },
+      {
+        id: "prod",
+        label: "PROD (EMQX)",
+        url: env.MQTT3_BROKER_URL || "mqtts://me19067f.ala.us-east-1.emqxsl.com:8883",
+        wsUrl: env.MQTT3_BROKER_WS_URL || "wss://me19067f.ala.us-east-1.emqxsl.com:8084/mqtt",
+        username: env.MQTT3_USERNAME || "",
+        password: env.MQTT3_PASSWORD || "",
+      },
+    ],
+    turn: {
+      cloudflareKeyId: env.CLOUDFLARE_TURN_KEY_ID || "",
+      cloudflareApiToken: env.CLOUDFLARE_TURN_API_TOKEN || "",
+      meteredApiKey: env.METERED_API_KEY || "",
+    },
+    api: {
+      users: env.WATCHDOG_OPERATOR_PASSWORD
+        ? [{ name: "operator", role: "operator", password: env.WATCHDOG_OPERATOR_PASSWORD }]
+        : [],
+    },
+  };
+}
+
+// --- Sealing ---
+
+function sealBroker(spec: BrokerSpec): boolean {
+  let changed = false;
+  for (const field of BROKER_SECRET_FIELDS) {
+    const value = spec[field];
+    if (typeof value === "string" && value && !isSealed(value)) {
+      spec[field] = seal(value);
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+/** Encrypt any plaintext secrets in place. Returns true if the file needs rewriting. */
+function sealFile(f: CredentialsFile): boolean {
+  let changed = false;
+  for (const b of f.brokers ?? []) changed = sealBroker(b) || changed;
+  for (const wall of Object.values(f.walls ?? {})) {
+    for (const b of wall.brokers ?? []) changed = sealBroker(b) || changed;
+  }
+  for (const field of TURN_SECRET_FIELDS) {
+    const value = f.turn?.[field];
+    if (value && !isSealed(value)) {
+      f.turn![field] = seal(value);
+      changed = true;
+    }
+  }
+  for (const user of f.api?.users ?? []) {
+    for (const field of API_SECRET_FIELDS) {
+      const value = user[field];
+      if (typeof value === "string" && value && !isSealed(value)) {
+        user[field] = seal(value);
+        changed = true;
+      }
+    }
+  }
+  // Ed25519 keys are public — only HMAC secrets need sealing
+  for (const k of f.commandKeys ?? []) {
+    if (k.alg === "hmac-sha256" && k.key && !isSealed(k.key)) {
+      k.key = seal(k.key);
+      changed = true;
+    }
+  }
+  for (const channel of f.notifications ?? []) {
+    for (const field of NOTIFICATION_SECRET_FIELDS) {
+      const value = channel[field];
+      if (typeof value === "string" && value && !isSealed(value)) {
+        channel[field] = seal(value);
+        changed = true;
+      }
+    }
+  }
+  return changed;
+}
+
+function readSecret(value: unknown, where: string): string {
+  if (typeof value !== "string") return "";
+  try {
+    return unseal(value);
+  } catch {
+    console.error(`[credentials] Can't decrypt ${where} — was the file copied from another machine?`);
+    return "";
+  }
+}
+
+// --- Loading ---
+
+function save(): void {
+  if (readOnly) throw new Error(`${CREDENTIALS_PATH} is unreadable — fix or remove it first`);
+  fs.mkdirSync(path.dirname(CREDENTIALS_PATH), { recursive: true });
+  const tmp = `${CREDENTIALS_PATH}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(file, null, 2), { mode: 0o600 });
+  fs.renameSync(tmp, CREDENTIALS_PATH);
+}
+
+/** Resolve the effective (decrypted) broker list, TURN secrets, API users, command keys and notification channels for this wall */
+function rebuild(): void {
+  const merged = new Map<string, BrokerSpec>();
+  for (const b of file.brokers ?? []) merged.set(b.id, b);
+  for (const o of file.walls?.[wallId]?.brokers ?? []) merged.set(o.id, { ...merged.get(o.id), ...o });
+
+  brokers = [...merged.values()].map((b) => ({
+    id: b.id,
+    label: b.label || b.id,
+    url: b.url || "",
+    wsUrl: b.wsUrl || "",
+    username: b.username || "",
+    password: readSecret(b.password, `password for broker ${b.id}`),
+    tokenSecret: readSecret(b.tokenSecret, `tokenSecret for broker ${b.id}`),
+    tokenTtlSec: b.tokenTtlSec || DEFAULT_TOKEN_TTL_SEC,
+  }));
+
+  turn = {
+    cloudflareKeyId: file.turn?.cloudflareKeyId || "",
+    cloudflareApiToken: readSecret(file.turn?.cloudflareApiToken, "turn.cloudflareApiToken"),
+    meteredApiKey: readSecret(file.turn?.meteredApiKey, "turn.meteredApiKey"),
+  };
+
+  apiUsers = [];
+  for (const u of file.api?.users ?? []) {
+    if (!u.name || !API_ROLES.includes(u.role as ApiRole)) {
+      console.error(`[credentials] Ignoring API user ${u.name ?? "(unnamed)"}: needs a name and role ${API_ROLES.join("/")}`);
+      continue;
+    }
+    apiUsers.push({
+      name: u.name,
+      role: u.role as ApiRole,
+      password: readSecret(u.password, `password for API user ${u.name}`),
+      token: readSecret(u.token, `token for API user ${u.name}`),
+    });
+  }
+
+  commandKeys = [];
+  for (const k of file.commandKeys ?? []) {
+    if (!k.clientId || !COMMAND_KEY_ALGS.includes(k.alg as CommandKeyAlg) || !k.key) {
+      console.error(`[credentials] Ignoring command key for ${k.clientId ?? "(no clientId)"}: needs clientId, alg ${COMMAND_KEY_ALGS.join("/")} and key`);
+      continue;
+    }
+    // Kept even if undecryptable (empty key) so the client stays registered and its commands fail verification
+    commandKeys.push({ clientId: k.clientId, alg: k.alg as CommandKeyAlg, key: readSecret(k.key, `command key for ${k.clientId}`) });
+  }
+
+  notificationChannels = [];
+  for (const n of file.notifications ?? []) {
+    if (!n.id || !NOTIFICATION_KINDS.includes(n.kind as NotificationKind)) {
+      console.error(`[credentials] Ignoring notification channel ${n.id ?? "(no id)"}: needs an id and kind ${NOTIFICATION_KINDS.join("/")}`);
+      continue;
+    }
+    const kind = n.kind as NotificationKind;
+    const url = readSecret(n.url, `url for notification channel ${n.id}`) || (kind === "pagerduty" ? PAGERDUTY_EVENTS_URL : "");
+    const routingKey = readSecret(n.routingKey, `routingKey for notification channel ${n.id}`);
+    if (!url || (kind === "pagerduty" && !routingKey)) {
+      console.error(`[credentials] Ignoring notification channel ${n.id}: needs a url${kind === "pagerduty" ? " and routingKey" : ""}`);
+      continue;
+    }
+    notificationChannels.push({
+      id: n.id,
+      kind,
+      url,
+      routingKey,
+      minSeverity: EVENT_SEVERITIES.includes(n.minSeverity as EventSeverity) ? n.minSeverity as EventSeverity : "WARN",
+      types: Array.isArray(n.types) ? n.types.filter((t) => typeof t === "string") : [],
+      throttleSec: typeof n.throttleSec === "number" && n.throttleSec >= 0 ? n.throttleSec : DEFAULT_THROTTLE_SEC,
+    });
+  }
+}
+
+/**
+ * Builds before the credentials file had the stock presets' usernames and passwords
+ * compiled in. An upgraded wall whose file was seeded without them can't authenticate,
+ * so say so on every start, with what to set.
+ */
+function reportMissingBrokerCredentials(): void {
+  const ids = getBrokersMissingCredentials();
+  if (ids.length === 0) return;
+
+  console.error(`[credentials] ==== Broker credentials missing: ${ids.join(", ")} ====`);
+  console.error(`[credentials] ${ids.length === brokers.length ? "No broker can" : "These presets can't"} authenticate until a username and password are set. Either:`);
+  console.error(`[credentials]   - add them to ${CREDENTIALS_PATH}, e.g. { "id": "${ids[0]}", ..., "username": "...", "password": "..." } (plaintext is encrypted on the next start)`);
+  console.error(`[credentials]   - or PUT /api/brokers/${ids[0]} with {"username":"...","password":"..."} on the local API`);
+  console.error(`[credentials]   - or delete the file and start once with ${ids.map((id) => `${STOCK_PRESET_ENV[id]}USERNAME/${STOCK_PRESET_ENV[id]}PASSWORD`).join(", ")} set`);
+}
+
+/** Load the credentials file (created from env on first run), applying overrides for this wall */
+export function loadCredentials(forWallId: string): void {
+  wallId = forWallId;
+
+  if (!fs.existsSync(CREDENTIALS_PATH)) {
+    file = seedFromEnv();
+    sealFile(file);
+    try {
+      save();
+      console.log(`[credentials] Created ${CREDENTIALS_PATH}`);
+    } catch (err: any) {
+      console.error(`[credentials] Failed to create ${CREDENTIALS_PATH}: ${err.message}`);
+    }
+  } else {
+    try {
+      file = JSON.parse(fs.readFileSync(CREDENTIALS_PATH, "utf-8"));
+      if (sealFile(file)) {
+        save();
+        console.log(`[credentials] Encrypted plaintext secrets in ${CREDENTIALS_PATH}`);
+      }
+    } catch (err: any) {
+      console.error(`[credentials] Failed to load ${CREDENTIALS_PATH}: ${err.message}`);
+      file = {};
+      readOnly = true;
+    }
+  }
+
+  rebuild();
+  console.log(`[credentials] ${brokers.length} broker presets loaded`);
+  reportMissingBrokerCredentials();
+}
+
+// --- Lookups ---
+
+export function getBrokers(): BrokerConfig[] {
+  return brokers;
+}
+
+/** Stock presets with neither username nor password — see reportMissingBrokerCredentials */
+export function getBrokersMissingCredentials(): string[] {
+  return brokers.filter((b) => b.id in STOCK_PRESET_ENV && !b.username && !b.password).map((b) => b.id);
+}
+
+export function getBrokerById(id: string): BrokerConfig | undefined {
+  return brokers.find((b) => b.id === id);
+}
+
+/** Per-wall broker order from the credentials file (may be empty) */
+export function getWallPriority(): string[] {
+  return file.walls?.[wallId]?.priority ?? [];
+}
+
+export function getTurnSecrets(): TurnSecrets {
+  return turn;
+}
+
+export function getApiUsers(): ApiUser[] {
+  return apiUsers;
+}
+
+export function getCommandKey(clientId: string): CommandKey | undefined {
+  return commandKeys.find((k) => k.clientId === clientId);
+}
+
+export function getNotificationChannels(): NotificationChannel[] {
+  return notificationChannels;
+}
+
+// --- Preset API ---
+
+function summarize(b: BrokerConfig): BrokerSummary {
+  return {
+    id: b.id,
+    label: b.label,
+    url: b.url,
+    wsUrl: b.wsUrl,
+    username: b.username,
+    hasPassword: b.password !== "",
+    tokenAuth: b.tokenSecret !== "",
+    tokenTtlSec: b.tokenTtlSec,
+  };
+}
+
+export function listBrokers(): BrokerSummary[] {
+  return brokers.map(summarize);
+}
+
+const EDITABLE_FIELDS = ["label", "url", "wsUrl", "username", "password", "tokenSecret", "tokenTtlSec"] as const;
+
+/** Copy known fields from an API body, rejecting bad values */
+function readSpec(body: any, id: string, requireUrl: boolean): BrokerSpec {
+  if (!body || typeof body !== "object") throw new Error("Body must be a JSON object");
+  const spec: BrokerSpec = { id };
+  for (const field of EDITABLE_FIELDS) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (field === "tokenTtlSec") {
+      if (typeof value !== "number" || value <= 0) throw new Error("tokenTtlSec must be a positive number");
+      spec.tokenTtlSec = value;
+    } else {
+      if (typeof value !== "string") throw new Error(`${field} must be a string`);
+      spec[field] = value;
+    }
+  }
+  if (requireUrl && !spec.url) throw new Error("url is required");
+  if (spec.url !== undefined && !URL_PATTERN.test(spec.url)) throw new Error("url must be mqtt://, mqtts://, ws:// or wss://");
+  if (spec.wsUrl && !/^wss?:\/\//.test(spec.wsUrl)) throw new Error("wsUrl must be ws:// or wss://");
+  return spec;
+}
+
+export function addBroker(body: any): BrokerSummary {
+  const id = body?.id;
+  if (typeof id !== "string" || !BROKER_ID_PATTERN.test(id)) throw new Error("id must match [A-Za-z0-9_.-]+");
+  if (getBrokerById(id)) throw new Error(`Broker ${id} already exists`);
+
+  const spec = readSpec(body, id, true);
+  sealBroker(spec);
+  file.brokers = [...(file.brokers ?? []), spec];
+  save();
+  rebuild();
+  console.log(`[credentials] Added broker ${id}`);
+  return summarize(getBrokerById(id)!);
+}
+
+/** Update a preset. Omitted fields are kept; an empty password/tokenSecret clears it. */
+export function updateBroker(id: string, body: any): BrokerSummary {
+  const wallBrokers = file.walls?.[wallId]?.brokers ?? [];
+  // Edit the entry that defines the preset — the shared list, or this wall's own addition
+  const target = file.brokers?.find((b) => b.id === id) ?? wallBrokers.find((b) => b.id === id);
+  if (!target) throw new Error(`Unknown broker: ${id}`);
+
+  const patch = readSpec(body, id, false);
+  sealBroker(patch);
+  Object.assign(target, patch);
+  save();
+  rebuild();
+  console.log(`[credentials] Updated broker ${id}`);
+  return summarize(getBrokerById(id)!);
+}
+
+export function removeBroker(id: string): void {
+  if (!getBrokerById(id)) throw new Error(`Unknown broker: ${id}`);
+  file.brokers = (file.brokers ?? []).filter((b) => b.id !== id);
+  for (const wall of Object.values(file.walls ?? {})) {
+    if (wall.brokers) wall.brokers = wall.brokers.filter((b) => b.id !== id);
+    if (wall.priority) wall.priority = wall.priority.filter((p) => p !== id);
+  }
+  save();
+  rebuild();
+  console.log(`[credentials] Removed broker ${id}`);
+}
+
+// --- Dashboard tokens ---
+
+function base64url(data: string | Buffer): string {
+  return Buffer.from(data).toString("base64url");
+}
+
+/** HS256 JWT scoped to subscribing to this wall's topics */
+function mintToken(broker: BrokerConfig, username: string): { token: string; expiresAt: number } {
+  const iat = Math.floor(Date.now() / 1000);
+  const exp = iat + broker.tokenTtlSec;
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(JSON.stringify({
+    sub: username,
+    username,
+    iat,
+    exp,
+    acl: [{ permission: "allow", action: "subscribe", topic: `watchdog/${wallId}/#` }],
+  }));
+  const signature = crypto.createHmac("sha256", broker.tokenSecret).update(`${header}.${payload}`).digest("base64url");
+  return { token: `${header}.${payload}.${signature}`, expiresAt: exp * 1000 };
+}
+
+/** Broker list for dashboard clients: WSS URLs and, where supported, a fresh token — never passwords */
+export function getDashboardBrokers(): DashboardBroker[] {
+  return brokers.map((b) => {
+    const entry: DashboardBroker = { id: b.id, label: b.label, url: b.wsUrl };
+    if (b.tokenSecret) {
+      const username = `dashboard-${wallId}`;
+      const { token, expiresAt } = mintToken(b, username);
+      Object.assign(entry, { username, token, tokenExpiresAt: expiresAt });
+    }
+    return entry;
+  });
+}
@@ -3,26 +3,13 @@ import type { ConditionState } from "./health";
 
 export type EventCallback = (event: EventPayload) => void;
 
-// Severity mapping for condition events
-const CONDITION_SEVERITY: Record<string, EventSeverity> = {
-  VUOS_DOWN: "CRITICAL",
-  SERVER_DOWN: "CRITICAL",
-  DISK_FULL: "CRITICAL",
-  THERMAL_THROTTLING: "CRITICAL",
-  LOCK_STALE: "ERROR",
-  INTERNET_OFFLINE: "WARN",
-  LATENCY_HIGH: "WARN",
-  DISK_HIGH: "WARN",
-  GPU_PROBE_FAILED: "ERROR",
-  ERRORS_HIGH: "WARN",
-};
-
 const REMINDER_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
 
 export class WatchdogEventEmitter {
   private wallId: string;
   private onEvent: EventCallback;
-  private previousStates = new Map<string, boolean>();
+  private previousStates = new Map<string, boolean>(); // last reported (edge-emitted) state
+  private flappingStates = new Set<string>();
   private reminderTimers = new Map<string, number>(); // conditionId → last reminder timestamp
   private previousMode: OperationalMode | null = null;
 
@@ -33,13 +20,36 @@ export class WatchdogEventEmitter {
 
   /** Call every 2s with updated condition states. Emits edge-triggered events. */
   updateConditions(conditions: ConditionState[]): void {
+    // Conditions dropped by a rules reload can't clear on their own — close them out
+    const current = new Set(conditions.map((c) => c.id));
+    for (const [id, wasActive] of this.previousStates) {
+      if (current.has(id)) continue;
+      if (wasActive) this.emit(`${id}_OFF`, "INFO", { reason: "rule removed" });
+      this.previousStates.delete(id);
+      this.reminderTimers.delete(id);
+      this.flappingStates.delete(id);
+    }
+
     for (const condition of conditions) {
+      // Flapping: one FLAPPING event, then edges are held back until the condition settles
+      if (condition.flapping) {
+        if (!this.flappingStates.has(condition.id)) {
+          this.flappingStates.add(condition.id);
+          this.emit(`${condition.id}_FLAPPING`, "WARN", { transitions: condition.transitions });
+        }
+        continue;
+      }
+      if (this.flappingStates.delete(condition.id)) {
+        // Settled — the edge check below reconciles the reported state with the current one
+        this.emit(`${condition.id}_FLAPPING_OFF`, "INFO", { active: condition.active });
+      }
+
       const prev = this.previousStates.get(condition.id) ?? false;
       const curr = condition.active;
 
       if (!prev && curr) {
         // false → true: condition just activated
-        this.emit(`${condition.id}_ON`, CONDITION_SEVERITY[condition.id] || "WARN", {});
+        this.emit(`${condition.id}_ON`, condition.severity, {});
         this.reminderTimers.set(condition.id, Date.now());
       } else if (prev && !curr) {
         // true → false: condition just cleared
@@ -49,7 +59,7 @@ export class WatchdogEventEmitter {
         // Still active — check if reminder is due
         const lastReminder = this.reminderTimers.get(condition.id) ?? 0;
         if (Date.now() - lastReminder >= REMINDER_INTERVAL_MS) {
-          this.emit(`${condition.id}_REMINDER`, CONDITION_SEVERITY[condition.id] || "WARN", {
+          this.emit(`${condition.id}_REMINDER`, condition.severity, {
             activeSince: condition.activeSince,
           });
           this.reminderTimers.set(condition.id, Date.now());
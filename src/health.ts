@@ -1,89 +1,166 @@
-import type { TelemetryPayload, OperationalMode, ConditionLevel, HealthPayload } from "./types";
+import type { TelemetryPayload, OperationalMode, ConditionLevel, EventSeverity, HealthPayload } from "./types";
+import { getRules } from "./rules";
 
-// --- Condition definitions ---
+// --- Condition definitions (compiled from rules.ts) ---
 
 export interface ConditionDef {
   id: string;
   level: ConditionLevel;
+  severity: EventSeverity;
   debounceMs: number;
+  clearDebounceMs: number;
+  flapThreshold: number;     // transitions within flapWindowMs that mark the condition FLAPPING (0 = off)
+  flapWindowMs: number;
   evaluate: (t: TelemetryPayload) => boolean;
+  clear?: (t: TelemetryPayload) => boolean;  // hysteresis: active clears only when this holds (default !evaluate)
 }
 
-const CONDITIONS: ConditionDef[] = [
-  // CRITICAL
-  { id: "VUOS_DOWN", level: "CRITICAL", debounceMs: 10_000, evaluate: (t) => !t.app.vuosProcessRunning },
-  { id: "SERVER_DOWN", level: "CRITICAL", debounceMs: 10_000, evaluate: (t) => !t.app.serverProcessRunning },
-  { id: "DISK_FULL", level: "CRITICAL", debounceMs: 0, evaluate: (t) => t.system.diskPercent >= 97 },
-  { id: "THERMAL_THROTTLING", level: "CRITICAL", debounceMs: 0, evaluate: (t) => t.system.thermalThrottling },
-  {
-    id: "LOCK_STALE", level: "CRITICAL", debounceMs: 0,
-    evaluate: (t) => t.app.serverLock !== null && !t.app.serverLock.healthy && (t.app.serverLock.heartbeatAgeMs ?? 0) > 15_000,
-  },
-
-  { id: "VUOS_NOT_RESPONDING", level: "CRITICAL", debounceMs: 10_000,
-    evaluate: (t) => t.app.vuosProcessRunning && t.app.vuosProcess !== null && !t.app.vuosProcess.responding },
-
-  // DEGRADED
-  { id: "INTERNET_OFFLINE", level: "DEGRADED", debounceMs: 30_000, evaluate: (t) => !t.network.internetOnline },
-  { id: "LATENCY_HIGH", level: "DEGRADED", debounceMs: 60_000, evaluate: (t) => (t.network.latencyMs ?? 0) > 250 },
-  { id: "DISK_HIGH", level: "DEGRADED", debounceMs: 0, evaluate: (t) => t.system.diskPercent >= 90 && t.system.diskPercent < 97 },
-  { id: "GPU_PROBE_FAILED", level: "DEGRADED", debounceMs: 60_000, evaluate: (t) => t.system.gpuName === null },
-  { id: "ERRORS_HIGH", level: "DEGRADED", debounceMs: 0, evaluate: (t) => t.app.logs.recentErrorCount >= 5 },
-];
-
 // --- Condition state tracker ---
 
 export interface ConditionState {
   id: string;
   level: ConditionLevel;
+  severity: EventSeverity;
   rawActive: boolean;        // condition triggered (before debounce)
   active: boolean;           // condition active (after debounce)
   activeSince: number | null; // timestamp when rawActive became true
+  clearingSince: number | null; // timestamp when the clear side started holding
+  flapping: boolean;         // too many transitions recently — edge events suppressed
+  transitions: number;       // active on/off transitions within the flap window
+  suppressed: boolean;       // inside a maintenance window — held inactive
 }
 
 const conditionStates = new Map<string, ConditionState>();
+const transitionLog = new Map<string, number[]>(); // conditionId → timestamps of active flips
+let isSuppressed: (conditionId: string) => boolean = () => false;
+
+/** Conditions the filter accepts are held inactive (maintenance windows, see scheduler.ts) */
+export function setSuppressionFilter(filter: (conditionId: string) => boolean): void {
+  isSuppressed = filter;
+}
 
-// Initialize all conditions
-for (const def of CONDITIONS) {
-  conditionStates.set(def.id, {
-    id: def.id,
-    level: def.level,
-    rawActive: false,
-    active: false,
-    activeSince: null,
-  });
+/** Sync tracked states with the current rule set (rules may be hot-reloaded) */
+function syncConditionStates(defs: ConditionDef[]): void {
+  const ids = new Set(defs.map((d) => d.id));
+  for (const id of conditionStates.keys()) {
+    if (!ids.has(id)) {
+      conditionStates.delete(id);
+      transitionLog.delete(id);
+    }
+  }
+
+  for (const def of defs) {
+    const state = conditionStates.get(def.id);
+    if (state) {
+      state.level = def.level;
+      state.severity = def.severity;
+      continue;
+    }
+    conditionStates.set(def.id, {
+      id: def.id,
+      level: def.level,
+      severity: def.severity,
+      rawActive: false,
+      active: false,
+      activeSince: null,
+      clearingSince: null,
+      flapping: false,
+      transitions: 0,
+      suppressed: false,
+    });
+    transitionLog.set(def.id, []);
+  }
+}
+
+function setActive(state: ConditionState, active: boolean, now: number): void {
+  if (state.active === active) return;
+  state.active = active;
+  transitionLog.get(state.id)!.push(now);
+}
+
+/** Flapping starts at flapThreshold transitions in the window and ends once the window is quiet */
+function updateFlapping(def: ConditionDef, state: ConditionState, now: number): void {
+  const log = transitionLog.get(def.id)!;
+  while (log.length > 0 && now - log[0] > def.flapWindowMs) log.shift();
+  state.transitions = log.length;
+
+  if (def.flapThreshold === 0) {
+    state.flapping = false;
+  } else if (!state.flapping && log.length >= def.flapThreshold) {
+    state.flapping = true;
+  } else if (state.flapping && log.length === 0) {
+    state.flapping = false;
+  }
 }
 
 export function evaluateConditions(telemetry: TelemetryPayload): ConditionState[] {
   const now = Date.now();
+  const defs = getRules().conditions;
+  syncConditionStates(defs);
 
-  for (const def of CONDITIONS) {
+  for (const def of defs) {
     const state = conditionStates.get(def.id)!;
+
+    // Expected during maintenance — clear immediately, debounce starts over once the window ends
+    state.suppressed = isSuppressed(def.id);
+    if (state.suppressed) {
+      setActive(state, false, now);
+      state.rawActive = false;
+      state.activeSince = null;
+      state.clearingSince = null;
+      updateFlapping(def, state, now);
+      continue;
+    }
+
     const triggered = def.evaluate(telemetry);
 
-    if (triggered) {
-      if (!state.rawActive) {
-        // Just became triggered
-        state.rawActive = true;
-        state.activeSince = now;
-      }
-      // Check debounce
-      if (def.debounceMs === 0 || (now - state.activeSince!) >= def.debounceMs) {
-        state.active = true;
+    if (!state.active) {
+      if (triggered) {
+        if (!state.rawActive) {
+          // Just became triggered
+          state.rawActive = true;
+          state.activeSince = now;
+        }
+        // Check debounce
+        if (def.debounceMs === 0 || (now - state.activeSince!) >= def.debounceMs) {
+          setActive(state, true, now);
+        }
+      } else {
+        state.rawActive = false;
+        state.activeSince = null;
       }
     } else {
-      state.rawActive = false;
-      state.active = false;
-      state.activeSince = null;
+      state.rawActive = triggered;
+      // Inside the hysteresis band (neither set nor clear holds) the condition stays active
+      const clearing = !triggered && (def.clear ? def.clear(telemetry) : true);
+
+      if (!clearing) {
+        state.clearingSince = null;
+      } else {
+        if (state.clearingSince === null) state.clearingSince = now;
+        // Check clear debounce
+        if (def.clearDebounceMs === 0 || (now - state.clearingSince) >= def.clearDebounceMs) {
+          setActive(state, false, now);
+          state.rawActive = false;
+          state.activeSince = null;
+          state.clearingSince = null;
+        }
+      }
     }
+
+    updateFlapping(def, state, now);
   }
 
   return Array.from(conditionStates.values());
 }
 
+/** Condition states as of the last evaluation */
+export function getConditionStates(): ConditionState[] {
+  return Array.from(conditionStates.values());
+}
+
 // --- Mode computation (pure function) ---
 
-const WARMUP_SEC = 5;
 const startTime = Date.now();
 let shuttingDown = false;
 
@@ -95,7 +172,7 @@ export function computeMode(conditions: ConditionState[]): OperationalMode {
   if (shuttingDown) return "SHUTTING_DOWN";
 
   const startupAge = (Date.now() - startTime) / 1000;
-  if (startupAge < WARMUP_SEC) return "STARTING";
+  if (startupAge < getRules().warmupSec) return "STARTING";
 
   let hasCritical = false;
   let hasDegraded = false;
@@ -120,6 +197,8 @@ export function buildHealth(
   conditions: ConditionState[],
 ): HealthPayload {
   const activeConditionIds = conditions.filter((c) => c.active).map((c) => c.id);
+  const flappingConditionIds = conditions.filter((c) => c.flapping).map((c) => c.id);
+  const suppressedConditionIds = conditions.filter((c) => c.suppressed).map((c) => c.id);
 
   return {
     schema: "vu.watchdog.health.v1",
@@ -127,6 +206,8 @@ export function buildHealth(
     wallId,
     mode,
     conditions: activeConditionIds,
+    flapping: flappingConditionIds,
+    suppressed: suppressedConditionIds,
     system: {
       cpu: Math.round(telemetry.system.cpuUsage) / 100,
       mem: Math.round(telemetry.system.ramPercent) / 100,
@@ -0,0 +1,233 @@
+/**
+ * Local history store (bun:sqlite)
+ *
+ * Keeps what the broker doesn't: downsampled telemetry, health mode changes,
+ * every event and who held the control lease, so an overnight incident can be
+ * inspected after the fact.
+ * Bounded by age and file size; pruned in the background.
+ */
+
+import { Database } from "bun:sqlite";
+import { dataPath } from "./config";
+import type { TelemetryPayload, HealthPayload, EventPayload, EventSeverity } from "./types";
+
+const TELEMETRY_SAMPLE_MS = 30_000;          // keep one telemetry snapshot every 30s
+const RETENTION_MS = (Number(process.env.HISTORY_RETENTION_DAYS) || 14) * 24 * 60 * 60_000;
+const MAX_SIZE_MB = Number(process.env.HISTORY_MAX_MB) || 200;
+const PRUNE_INTERVAL_MS = 60 * 60_000;
+
+export interface TelemetryQuery {
+  from: number;
+  to: number;
+  step: number;   // bucket size in ms — one sample per bucket
+}
+
+/** One holder's time with the control lease */
+export interface LeaseTenure {
+  owner: string;
+  grantedAt: number;
+  endedAt: number | null;     // null while still held
+  endReason: string | null;   // RELEASED, EXPIRED or REVOKED
+  endedBy: string | null;     // who revoked it
+}
+
+export interface EventQuery {
+  from: number;
+  to: number;
+  severity?: EventSeverity[];
+  type?: string;  // exact type, or prefix with trailing "*" (e.g. "VUOS_DOWN*")
+  limit: number;
+}
+
+let db: Database | null = null;
+let lastTelemetryTs = 0;
+let lastHealthMode: string | null = null;
+
+/** Open (or create) the history database. Failures disable history instead of stopping the watchdog. */
+export function openHistory(): void {
+  try {
+    const dbPath = dataPath("history.db");
+    db = new Database(dbPath, { create: true });
+    // auto_vacuum only takes effect before the first table is created, so set it ahead of
+    // anything else; files created without it are rebuilt once so prune can shrink them
+    db.exec("PRAGMA auto_vacuum = INCREMENTAL");
+    const { auto_vacuum } = db.query("PRAGMA auto_vacuum").get() as { auto_vacuum: number };
+    if (auto_vacuum !== 2) {
+      console.log("[history] Enabling incremental vacuum (one-off rebuild)...");
+      db.exec("VACUUM");
+    }
+    db.exec("PRAGMA journal_mode = WAL");
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS telemetry (ts INTEGER NOT NULL, data TEXT NOT NULL);
+      CREATE INDEX IF NOT EXISTS telemetry_ts ON telemetry (ts);
+      CREATE TABLE IF NOT EXISTS health (ts INTEGER NOT NULL, mode TEXT NOT NULL, data TEXT NOT NULL);
+      CREATE INDEX IF NOT EXISTS health_ts ON health (ts);
+      CREATE TABLE IF NOT EXISTS events (ts INTEGER NOT NULL, type TEXT NOT NULL, severity TEXT NOT NULL, data TEXT NOT NULL);
+      CREATE INDEX IF NOT EXISTS events_ts ON events (ts);
+      CREATE TABLE IF NOT EXISTS lease (ts INTEGER NOT NULL, owner TEXT NOT NULL, ended_at INTEGER, end_reason TEXT, ended_by TEXT);
+      CREATE INDEX IF NOT EXISTS lease_ts ON lease (ts);
+    `);
+    console.log(`[history] Recording to ${dbPath}`);
+
+    prune();
+    setInterval(prune, PRUNE_INTERVAL_MS);
+  } catch (err: any) {
+    console.error("[history] Disabled:", err.message);
+    db = null;
+  }
+}
+
+// --- Recording ---
+
+/** Record telemetry, downsampled to one snapshot per TELEMETRY_SAMPLE_MS */
+export function recordTelemetry(data: TelemetryPayload): void {
+  if (!db || data.timestamp - lastTelemetryTs < TELEMETRY_SAMPLE_MS) return;
+  lastTelemetryTs = data.timestamp;
+  try {
+    db.query("INSERT INTO telemetry (ts, data) VALUES (?, ?)").run(data.timestamp, JSON.stringify(data));
+  } catch (err: any) {
+    console.error("[history] Failed to record telemetry:", err.message);
+  }
+}
+
+/** Record a health payload when the operational mode changes */
+export function recordHealth(data: HealthPayload): void {
+  if (!db || data.mode === lastHealthMode) return;
+  lastHealthMode = data.mode;
+  try {
+    db.query("INSERT INTO health (ts, mode, data) VALUES (?, ?, ?)").run(data.ts, data.mode, JSON.stringify(data));
+  } catch (err: any) {
+    console.error("[history] Failed to record health:", err.message);
+  }
+}
+
+export function recordEvent(event: EventPayload): void {
+  if (!db) return;
+  try {
+    db.query("INSERT INTO events (ts, type, severity, data) VALUES (?, ?, ?, ?)")
+      .run(event.ts, event.type, event.severity, JSON.stringify(event));
+  } catch (err: any) {
+    console.error("[history] Failed to record event:", err.message);
+  }
+}
+
+/** A client was granted the lease (renewals don't start a new tenure) */
+export function recordLeaseGranted(owner: string, ts: number): void {
+  if (!db) return;
+  try {
+    db.query("INSERT INTO lease (ts, owner) VALUES (?, ?)").run(ts, owner);
+  } catch (err: any) {
+    console.error("[history] Failed to record lease:", err.message);
+  }
+}
+
+/** Close the open tenure, if any */
+export function recordLeaseEnded(ts: number, reason: string, by: string | null = null): void {
+  if (!db) return;
+  try {
+    db.query("UPDATE lease SET ended_at = ?, end_reason = ?, ended_by = ? WHERE ended_at IS NULL").run(ts, reason, by);
+  } catch (err: any) {
+    console.error("[history] Failed to record lease end:", err.message);
+  }
+}
+
+// --- Queries ---
+
+export function isHistoryAvailable(): boolean {
+  return db !== null;
+}
+
+export function queryTelemetry(q: TelemetryQuery): TelemetryPayload[] {
+  if (!db) return [];
+  // Bare `data` column is taken from the MIN(ts) row of each bucket
+  const rows = db.query(
+    "SELECT MIN(ts) AS ts, data FROM telemetry WHERE ts BETWEEN ? AND ? GROUP BY ts / ? ORDER BY ts",
+  ).all(q.from, q.to, Math.max(1, Math.floor(q.step))) as { ts: number; data: string }[];
+  return rows.map((r) => JSON.parse(r.data));
+}
+
+export function queryHealth(from: number, to: number): HealthPayload[] {
+  if (!db) return [];
+  const rows = db.query("SELECT data FROM health WHERE ts BETWEEN ? AND ? ORDER BY ts").all(from, to) as { data: string }[];
+  return rows.map((r) => JSON.parse(r.data));
+}
+
+export function queryEvents(q: EventQuery): EventPayload[] {
+  if (!db) return [];
+
+  const where = ["ts BETWEEN ? AND ?"];
+  const params: (string | number)[] = [q.from, q.to];
+
+  if (q.severity && q.severity.length > 0) {
+    where.push(`severity IN (${q.severity.map(() => "?").join(", ")})`);
+    params.push(...q.severity);
+  }
+  if (q.type) {
+    if (q.type.endsWith("*")) {
+      where.push("type LIKE ? ESCAPE '\\'");
+      params.push(q.type.slice(0, -1).replace(/[\\%_]/g, (c) => `\\${c}`) + "%");
+    } else {
+      where.push("type = ?");
+      params.push(q.type);
+    }
+  }
+  params.push(Math.max(0, Math.floor(q.limit)));   // LIMIT -1 would mean no limit
+
+  const rows = db.query(
+    `SELECT data FROM events WHERE ${where.join(" AND ")} ORDER BY ts DESC LIMIT ?`,
+  ).all(...params) as { data: string }[];
+  return rows.map((r) => JSON.parse(r.data));
+}
+
+/** Tenures overlapping [from, to], oldest first */
+export function queryLease(from: number, to: number): LeaseTenure[] {
+  if (!db) return [];
+  const rows = db.query(
+    "SELECT ts, owner, ended_at, end_reason, ended_by FROM lease WHERE ts <= ? AND (ended_at IS NULL OR ended_at >= ?) ORDER BY ts",
+  ).all(to, from) as { ts: number; owner: string; ended_at: number | null; end_reason: string | null; ended_by: string | null }[];
+  return rows.map((r) => ({
+    owner: r.owner,
+    grantedAt: r.ts,
+    endedAt: r.ended_at,
+    endReason: r.end_reason,
+    endedBy: r.ended_by,
+  }));
+}
+
+// --- Retention ---
+
+/** Space used by live rows — free pages don't count, whether or not vacuum has released them yet */
+function sizeMB(): number {
+  if (!db) return 0;
+  const { page_count } = db.query("PRAGMA page_count").get() as { page_count: number };
+  const { freelist_count } = db.query("PRAGMA freelist_count").get() as { freelist_count: number };
+  const { page_size } = db.query("PRAGMA page_size").get() as { page_size: number };
+  return ((page_count - freelist_count) * page_size) / (1024 * 1024);
+}
+
+/** Drop rows past retention, then the oldest telemetry while over the size cap */
+function prune(): void {
+  if (!db) return;
+  try {
+    const cutoff = Date.now() - RETENTION_MS;
+    for (const table of ["telemetry", "health", "events", "lease"]) {
+      db.query(`DELETE FROM ${table} WHERE ts < ?`).run(cutoff);
+    }
+
+    // Telemetry is the bulk of the file; trim it 10% at a time, events only as a last resort
+    for (const table of ["telemetry", "events"]) {
+      for (let i = 0; i < 10 && sizeMB() > MAX_SIZE_MB; i++) {
+        const { n } = db.query(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number };
+        if (n === 0) break;
+        db.query(`DELETE FROM ${table} WHERE rowid IN (SELECT rowid FROM ${table} ORDER BY ts LIMIT ?)`)
+          .run(Math.max(1, Math.ceil(n / 10)));
+        db.exec("PRAGMA incremental_vacuum");
+      }
+    }
+
+    db.exec("PRAGMA incremental_vacuum");
+    db.exec("PRAGMA wal_checkpoint(TRUNCATE)");
+  } catch (err: any) {
+    console.error("[history] Prune failed:", err.message);
+  }
+}
@@ -1,24 +1,36 @@
 import { hideConsole } from "./console";
 import { startTray } from "./tray";
-import { loadConfig, readConfigs, getOscPort, VUOS_DIR } from "./config";
+import { loadConfig, readConfigs, getOscPort, VUOS_EXE, VUOS_PROCESS_NAME } from "./config";
+import { loadCredentials, getBrokers, getBrokersMissingCredentials, getNotificationChannels } from "./credentials";
 import {
   connectMqtt, publishTelemetry, publishHealth, publishConfig,
-  publishCommand, publishEvent, switchBroker, getActiveClient, TOPICS,
-  clearWebrtcOffer,
+  publishCommand, publishEvent, switchBroker, TOPICS,
+  clearWebrtcOffer, setBrokerSwitchHandler, setBrokerConnectedHandler,
 } from "./mqtt";
 import { startSystemPolling, collectSystem } from "./collectors/system";
 import { startNetworkPolling, collectNetwork } from "./collectors/network";
-import { startAppPolling, collectApp } from "./collectors/app";
+import { startAppPolling, collectApp, getVuosPid } from "./collectors/app";
 import { startOscListener } from "./collectors/osc";
+import { collectWatchdog } from "./collectors/watchdog";
+import { collectCollectors } from "./collectors/status";
 import {
   startServer, updateTelemetry, broadcastCommand, broadcastHealth,
   broadcastEvent, broadcastAck, setCommandProcessor, broadcastStreaming,
-  broadcastRemoteStreaming,
+  broadcastRemoteStreaming, broadcastLease,
 } from "./server";
-import { evaluateConditions, computeMode, buildHealth, setShuttingDown } from "./health";
+import { evaluateConditions, computeMode, buildHealth, setShuttingDown, setSuppressionFilter } from "./health";
+import { loadRules, watchRules, setActionValidator } from "./rules";
 import { WatchdogEventEmitter } from "./events";
-import { CommandProcessor } from "./commands";
-import { LeaseManager } from "./lease";
+import { CommandProcessor, waitUntil, type ArgSchema } from "./commands";
+import { LeaseManager, LEASE_MAX_SEC, LEASE_DEFAULT_SEC } from "./lease";
+import { RemediationEngine } from "./remediation";
+import { Scheduler, MAX_WINDOW_MIN, toScheduleSpec } from "./scheduler";
+import { openHistory, recordTelemetry, recordHealth, recordEvent } from "./history";
+import { setOverflowHandler } from "./outbox";
+import { publishSparkplug, setSparkplugCommandHandler } from "./sparkplug";
+import { startOtel, flushOtel, exportTelemetry, exportEvent, exportCommandTrace } from "./otel";
+import { notifyEvent, sendTestNotification } from "./notifications";
+import { getSupervisor } from "./supervisor";
 import type { TelemetryPayload, LeasePayload, CommandPayload } from "./types";
 import * as path from "path";
 import {
@@ -32,6 +44,7 @@ import {
 } from "./remote-bridge";
 
 const PUBLISH_INTERVAL_MS = 2_000;
+const VUOS_STOP_GRACE_MS = 10_000;    // time to close cleanly before being killed
 
 function snapshot(wallId: string): TelemetryPayload {
   return {
@@ -40,6 +53,8 @@ function snapshot(wallId: string): TelemetryPayload {
     system: collectSystem(),
     network: collectNetwork(),
     app: collectApp(),
+    watchdog: collectWatchdog(),
+    collectors: collectCollectors(),
   };
 }
 
@@ -60,8 +75,9 @@ async function main() {
   // Prevent multiple instances
   await ensureSingleInstance();
 
-  // Hide the console window immediately — tray menu can re-show it
-  hideConsole();
+  // Hide the console window immediately — tray menu can re-show it (Windows only)
+  const isWindows = process.platform === "win32";
+  if (isWindows) hideConsole();
 
   console.log("[watchdog] Starting...");
 
@@ -80,91 +96,167 @@ async function main() {
   // Set wallId for streaming MQTT publishing
   setStreamingWallId(wallId);
 
+  // Broker presets and API keys (with this wall's overrides)
+  loadCredentials(wallId);
+
   // --- Initialize ops plane ---
 
-  const leaseManager = new LeaseManager();
+  // Local history (telemetry samples, mode changes, events)
+  openHistory();
+
+  // OpenTelemetry export (if OTEL_EXPORTER_OTLP_ENDPOINT is set)
+  startOtel(wallId);
 
-  // Event emitter: publishes to MQTT + WebSocket
+  // Event emitter: publishes to MQTT + WebSocket, records to history, exports as OTLP logs, notifies webhooks
   const eventEmitter = new WatchdogEventEmitter(wallId, (event) => {
     publishEvent(wallId, event);
     broadcastEvent(event);
+    recordEvent(event);
+    exportEvent(event);
+    notifyEvent(event);
+  });
+
+  // Control lease — the watchdog grants it and publishes the canonical retained message
+  const leaseManager = new LeaseManager(wallId, eventEmitter, (lease) => broadcastLease(lease));
+  broadcastLease(leaseManager.getPayload());
+
+  // Stock broker presets left without credentials (e.g. after upgrading from a build that compiled them in)
+  const brokersMissingCredentials = getBrokersMissingCredentials();
+  if (brokersMissingCredentials.length > 0) {
+    eventEmitter.emitLifecycle("CREDENTIALS_MISSING", "ERROR", { brokers: brokersMissingCredentials });
+  }
+
+  // Outbound MQTT buffer dropped messages during a long outage
+  setOverflowHandler(({ dropped, capacity }) => {
+    eventEmitter.emitLifecycle("BUFFER_OVERFLOW", "ERROR", { dropped, capacity });
   });
 
   // Command processor with handlers
   const commandProcessor = new CommandProcessor(wallId, leaseManager, eventEmitter, (ack) => {
     broadcastAck(ack);
   });
+  commandProcessor.onCommandFinished(exportCommandTrace);
 
   // Register command handlers
-  const vuosExe = path.resolve(VUOS_DIR, "..", "..", "..", "Vu One.exe");
+  const supervisor = getSupervisor();
+
+  // Vu One OS lifecycle — APPLIED only once the app collector observes the expected PID state
+  const launchVuos = () => supervisor.spawn(VUOS_EXE, [], path.dirname(VUOS_EXE));
+  const stopVuos = async () => {
+    const procs = await supervisor.find(VUOS_PROCESS_NAME);
+    const killed = await Promise.all(procs.map((p) => supervisor.stop(p.pid, VUOS_STOP_GRACE_MS)));
+    if (killed.some(Boolean)) console.log("[watchdog] Vu One OS didn't exit in time — killed");
+  };
 
   commandProcessor.registerCommand({
     type: "START_VUOS",
+    description: "Launch Vu One OS",
+    args: {},
     requiresLease: true,
     localBypass: true,
-    handler: async () => {
+    timeoutMs: 60_000,
+    resource: "vuos",
+    handler: async (_args, ctx) => {
+      const runningPid = getVuosPid();
+      if (runningPid !== null) {
+        return { message: "Vu One OS already running", details: { pid: runningPid } };
+      }
       console.log("[watchdog] Start Vu One OS requested");
-      Bun.spawn([vuosExe], { cwd: path.dirname(vuosExe), stdio: ["ignore", "ignore", "ignore"] });
-      console.log("[watchdog] Vu One OS launched");
-      return { message: "Vu One OS launched", details: {} };
+      launchVuos();
+      ctx.accept("Vu One OS launching");
+      await waitUntil(() => getVuosPid() !== null, ctx.signal);
+      const pid = getVuosPid();
+      console.log(`[watchdog] Vu One OS running (PID ${pid})`);
+      return { message: "Vu One OS launched", details: { pid } };
     },
   });
 
   commandProcessor.registerCommand({
     type: "RESTART_VUOS",
+    description: "Stop and relaunch Vu One OS",
+    args: {},
     requiresLease: true,
     localBypass: true,
-    handler: async () => {
+    timeoutMs: 90_000,
+    resource: "vuos",
+    handler: async (_args, ctx) => {
       console.log("[watchdog] Restart Vu One OS requested");
-      Bun.spawn(["taskkill", "/F", "/IM", "Vu One.exe"], { stdio: ["ignore", "ignore", "ignore"] });
-      await new Promise((r) => setTimeout(r, 2000));
-      Bun.spawn([vuosExe], { cwd: path.dirname(vuosExe), stdio: ["ignore", "ignore", "ignore"] });
-      console.log("[watchdog] Vu One OS relaunched");
-      eventEmitter.emitLifecycle("VUOS_RESTARTED", "WARN", {});
-      return { message: "Vu One OS restarted", details: {} };
+      const oldPid = getVuosPid();
+      ctx.accept("Restarting Vu One OS", { oldPid });
+
+      if (oldPid !== null) {
+        await stopVuos();
+        await waitUntil(() => getVuosPid() !== oldPid, ctx.signal);
+        ctx.progress("Vu One OS stopped", { oldPid });
+      }
+
+      // A different PID may already be up if something else relaunched it
+      if (getVuosPid() === null) launchVuos();
+      ctx.progress("Vu One OS launching");
+      await waitUntil(() => getVuosPid() !== null && getVuosPid() !== oldPid, ctx.signal);
+
+      const pid = getVuosPid();
+      console.log(`[watchdog] Vu One OS relaunched (PID ${oldPid} → ${pid})`);
+      eventEmitter.emitLifecycle("VUOS_RESTARTED", "WARN", { oldPid, pid });
+      return { message: "Vu One OS restarted", details: { oldPid, pid } };
     },
   });
 
   commandProcessor.registerCommand({
     type: "STOP_VUOS",
+    description: "Stop Vu One OS (killed if it doesn't exit within 10s)",
+    args: {},
     requiresLease: true,
     localBypass: false,
-    handler: async () => {
+    timeoutMs: 30_000,
+    resource: "vuos",
+    handler: async (_args, ctx) => {
       console.log("[watchdog] Stop Vu One OS requested");
-      Bun.spawn(["taskkill", "/F", "/IM", "Vu One.exe"], { stdio: ["ignore", "ignore", "ignore"] });
-      return { message: "Vu One OS stopped", details: {} };
+      const pid = getVuosPid();
+      ctx.accept("Stopping Vu One OS", { pid });
+      await stopVuos();
+      await waitUntil(() => getVuosPid() === null, ctx.signal);
+      return { message: "Vu One OS stopped", details: { pid } };
     },
   });
 
   commandProcessor.registerCommand({
     type: "QUIT_WATCHDOG",
+    description: "Shut down the watchdog",
+    args: {},
     requiresLease: true,
     localBypass: false,
     handler: async () => {
       console.log("[watchdog] Quit requested");
       setShuttingDown(true);
       eventEmitter.emitLifecycle("WATCHDOG_SHUTTING_DOWN", "INFO", {});
-      setTimeout(() => process.exit(0), 500);
+      setTimeout(() => flushOtel().finally(() => process.exit(0)), 500);
       return { message: "Watchdog shutting down", details: {} };
     },
   });
 
   commandProcessor.registerCommand({
     type: "SWITCH_BROKER",
+    description: "Switch the watchdog to another MQTT broker preset",
+    args: {
+      brokerId: { type: "string", required: true, enum: () => getBrokers().map((b) => b.id), description: "Broker preset id" },
+    },
     requiresLease: true,
     localBypass: true,
-    handler: async (args) => {
+    timeoutMs: 30_000,
+    resource: "broker",
+    handler: async (args, ctx) => {
       const brokerId = args.brokerId;
-      if (!brokerId) throw new Error("Missing brokerId");
-      const oldBrokerId = (await import("./mqtt")).getActiveBrokerId();
-      eventEmitter.emitLifecycle("BROKER_SWITCHED", "WARN", { from: oldBrokerId, to: brokerId, reason: "manual" });
-      await switchBroker(brokerId);
+      ctx.accept(`Switching to broker ${brokerId}`);
+      await switchBroker(brokerId);   // BROKER_SWITCHED comes from the switch handler
       return { message: `Switched to broker ${brokerId}`, details: { brokerId } };
     },
   });
 
   commandProcessor.registerCommand({
     type: "REQUEST_TELEMETRY",
+    description: "Publish a telemetry snapshot now",
+    args: {},
     requiresLease: false,
     localBypass: true,
     handler: async () => {
@@ -177,6 +269,8 @@ async function main() {
 
   commandProcessor.registerCommand({
     type: "REQUEST_CONFIG",
+    description: "Publish the Vu One OS config now",
+    args: {},
     requiresLease: false,
     localBypass: true,
     handler: async () => {
@@ -186,6 +280,164 @@ async function main() {
     },
   });
 
+  commandProcessor.registerCommand({
+    type: "LIST_COMMANDS",
+    description: "List registered commands and their argument schemas",
+    args: {},
+    requiresLease: false,
+    localBypass: true,
+    handler: async () => {
+      return { message: "Command registry", details: { commands: commandProcessor.listCommands() } };
+    },
+  });
+
+  commandProcessor.registerCommand({
+    type: "CANCEL_COMMAND",
+    description: "Cancel a queued or running command",
+    args: {
+      commandId: { type: "string", required: true, description: "commandId of the command to cancel" },
+    },
+    requiresLease: true,
+    localBypass: true,
+    handler: async (args, ctx) => {
+      const cancelled = commandProcessor.cancel(args.commandId, ctx.clientId);
+      return { message: `Cancelled ${cancelled.type}`, details: { cancelled } };
+    },
+  });
+
+  // Control lease — the sender's clientId is the lease identity
+  const LEASE_ARGS: ArgSchema = {
+    durationSec: { type: "integer", min: 10, max: LEASE_MAX_SEC, description: `Lease length in seconds (default ${LEASE_DEFAULT_SEC})` },
+  };
+
+  commandProcessor.registerCommand({
+    type: "LEASE_ACQUIRE",
+    description: "Take the control lease",
+    args: LEASE_ARGS,
+    requiresLease: false,
+    localBypass: true,
+    handler: async (args, ctx) => {
+      const lease = leaseManager.acquire(ctx.clientId, args.durationSec);
+      return { message: `Lease granted to ${ctx.clientId}`, details: { lease } };
+    },
+  });
+
+  commandProcessor.registerCommand({
+    type: "LEASE_RENEW",
+    description: "Extend the caller's control lease",
+    args: LEASE_ARGS,
+    requiresLease: false,
+    localBypass: true,
+    handler: async (args, ctx) => {
+      const lease = leaseManager.renew(ctx.clientId, args.durationSec);
+      return { message: "Lease renewed", details: { lease } };
+    },
+  });
+
+  commandProcessor.registerCommand({
+    type: "LEASE_RELEASE",
+    description: "Give up the caller's control lease",
+    args: {},
+    requiresLease: false,
+    localBypass: true,
+    handler: async (_args, ctx) => {
+      const lease = leaseManager.release(ctx.clientId);
+      return { message: "Lease released", details: { lease } };
+    },
+  });
+
+  // Break glass: local callers can take the lease from anyone (remote callers only from themselves)
+  commandProcessor.registerCommand({
+    type: "LEASE_REVOKE",
+    description: "Revoke the control lease from its holder",
+    args: {
+      reason: { type: "string", description: "Why the lease was revoked" },
+    },
+    requiresLease: true,
+    localBypass: true,
+    handler: async (args, ctx) => {
+      const lease = leaseManager.revoke(ctx.clientId, args.reason);
+      return { message: "Lease revoked", details: { lease } };
+    },
+  });
+
+  // Scheduled commands and maintenance windows (persisted in the data dir)
+  const scheduler = new Scheduler(commandProcessor, leaseManager, eventEmitter);
+
+  commandProcessor.registerCommand({
+    type: "SCHEDULE_ADD",
+    description: "Add or replace a cron job: a command to run, or a maintenance window",
+    args: {
+      id: { type: "string", description: "Job id (replaces an existing job with the same id)" },
+      cron: { type: "string", required: true, description: "minute hour day-of-month month day-of-week, local time" },
+      description: { type: "string", description: "Free text" },
+      command: { type: "string", enum: () => commandProcessor.commandTypes(), description: "Command to dispatch" },
+      args: { type: "object", description: "Arguments for the command" },
+      durationMin: { type: "integer", min: 1, max: MAX_WINDOW_MIN, description: "Maintenance window length in minutes" },
+      suppress: { type: "array", description: "Condition ids suppressed during the window (default: all)" },
+    },
+    requiresLease: true,
+    localBypass: true,
+    handler: async (args, ctx) => {
+      const job = scheduler.add(toScheduleSpec(args), ctx.clientId);
+      return { message: `Scheduled ${job.kind} job ${job.id}`, details: { job } };
+    },
+  });
+
+  commandProcessor.registerCommand({
+    type: "SCHEDULE_REMOVE",
+    description: "Remove a scheduled job",
+    args: {
+      id: { type: "string", required: true, description: "Job id" },
+    },
+    requiresLease: true,
+    localBypass: true,
+    handler: async (args) => {
+      const job = scheduler.remove(args.id);
+      return { message: `Removed job ${job.id}`, details: { job } };
+    },
+  });
+
+  commandProcessor.registerCommand({
+    type: "SCHEDULE_LIST",
+    description: "List scheduled jobs with their next run and open maintenance windows",
+    args: {},
+    requiresLease: false,
+    localBypass: true,
+    handler: async () => {
+      return { message: "Schedule", details: { jobs: scheduler.list() } };
+    },
+  });
+
+  commandProcessor.registerCommand({
+    type: "TEST_NOTIFICATION",
+    description: "Send a test notification to one or all notification channels",
+    args: {
+      channel: { type: "string", enum: () => getNotificationChannels().map((c) => c.id), description: "Channel id (default: all)" },
+    },
+    requiresLease: true,
+    localBypass: true,
+    handler: async (args, ctx) => {
+      ctx.accept("Sending test notification");
+      const results = await sendTestNotification(wallId, args.channel);
+      const failed = results.filter((r) => !r.ok);
+      if (failed.length > 0) {
+        throw new Error(`Not delivered to ${failed.map((r) => `${r.channel} (${r.error})`).join(", ")}`);
+      }
+      return { message: `Test notification sent to ${results.length} channel(s)`, details: { results } };
+    },
+  });
+
+  // Shared by START_STREAM / SET_STREAM_QUALITY — a preset, or explicit values (medium fills the gaps)
+  const STREAM_ARGS: ArgSchema = {
+    monitor: { type: "integer", min: 0, max: 15, description: "Monitor index" },
+    quality: { type: "string", enum: Object.keys(QUALITY_PRESETS), description: "Quality preset" },
+    width: { type: "integer", min: 320, max: 7680, description: "Width in pixels" },
+    height: { type: "integer", min: 240, max: 4320, description: "Height in pixels" },
+    fps: { type: "integer", min: 1, max: 60, description: "Frames per second" },
+    bitrate: { type: "integer", min: 100, max: 50_000, description: "Bitrate in kbps" },
+  };
+
   // Helper to parse quality from args
   function parseQuality(args: Record<string, any>): StreamQuality {
     // Check for preset first
@@ -204,17 +456,24 @@ async function main() {
   // Streaming commands
   commandProcessor.registerCommand({
     type: "START_STREAM",
+    description: "Start screen streaming",
+    args: STREAM_ARGS,
     requiresLease: false,
     localBypass: true,
-    handler: async (args) => {
+    leaseOverHttp: true,
+    timeoutMs: 60_000,
+    resource: "stream",
+    handler: async (args, ctx) => {
       if (!isStreamerAvailable()) {
         throw new Error("webrtc-streamer not installed");
       }
       const monitor = args.monitor !== undefined ? args.monitor : 0;
       const quality = parseQuality(args);
+      ctx.accept("Starting stream", { monitor, quality });
       await startStreaming({ monitor, quality });
       const state = getStreamingState();
       broadcastStreaming({ ...state, available: true });
+      ctx.progress("Stream running, starting remote viewing");
 
       // Auto-start remote viewing
       try {
@@ -233,8 +492,12 @@ async function main() {
 
   commandProcessor.registerCommand({
     type: "STOP_STREAM",
+    description: "Stop screen streaming",
+    args: {},
     requiresLease: false,
     localBypass: true,
+    leaseOverHttp: true,
+    resource: "stream",
     handler: async () => {
       // Stop remote viewing first
       await stopRemoteViewing();
@@ -249,11 +512,52 @@ async function main() {
     },
   });
 
+  // Remote viewing (VDO.ninja bridge) on top of a running local stream
+  commandProcessor.registerCommand({
+    type: "START_REMOTE_VIEWING",
+    description: "Start remote viewing of the running stream",
+    args: {},
+    requiresLease: false,
+    localBypass: true,
+    leaseOverHttp: true,
+    resource: "stream",
+    handler: async () => {
+      if (getStreamingState().status !== "running") {
+        throw new Error("Local streaming must be running first. Start it with START_STREAM");
+      }
+      await startRemoteViewing(wallId);
+      const state = getRemoteBridgeState();
+      broadcastRemoteStreaming(state);
+      return { message: "Remote viewing started", details: { ...state } };
+    },
+  });
+
+  commandProcessor.registerCommand({
+    type: "STOP_REMOTE_VIEWING",
+    description: "Stop remote viewing, leaving the local stream running",
+    args: {},
+    requiresLease: false,
+    localBypass: true,
+    leaseOverHttp: true,
+    resource: "stream",
+    handler: async () => {
+      await stopRemoteViewing();
+      const state = getRemoteBridgeState();
+      broadcastRemoteStreaming(state);
+      return { message: "Remote viewing stopped", details: { ...state } };
+    },
+  });
+
   commandProcessor.registerCommand({
     type: "SET_STREAM_QUALITY",
+    description: "Restart the running stream with a new quality",
+    args: STREAM_ARGS,
     requiresLease: false,
     localBypass: true,
-    handler: async (args) => {
+    leaseOverHttp: true,
+    timeoutMs: 60_000,
+    resource: "stream",
+    handler: async (args, ctx) => {
       const currentState = getStreamingState();
       if (currentState.status !== "running") {
         throw new Error("Stream is not running");
@@ -262,10 +566,12 @@ async function main() {
       // Get current monitor setting and new quality
       const quality = parseQuality(args);
       const monitor = args.monitor !== undefined ? args.monitor : 0;
+      ctx.accept("Restarting stream with new quality", { monitor, quality });
 
       // Stop current stream
       await stopRemoteViewing();
       await stopStreaming();
+      ctx.progress("Stream stopped, restarting");
 
       // Restart with new quality
       await startStreaming({ monitor, quality });
@@ -290,12 +596,43 @@ async function main() {
   // Wire command processor to server
   setCommandProcessor(commandProcessor);
 
+  // Sparkplug B NCMD command metrics (if enabled)
+  setSparkplugCommandHandler({
+    commands: () => commandProcessor.commandTypes(),
+    execute: (type, args, clientId) => commandProcessor.handleSparkplug(type, args, clientId),
+  });
+
+  // Condition rules: built-in defaults + optional per-wall rules file (hot-reloaded).
+  // Loaded once the commands are registered, so remediation actions can be checked against them.
+  // Remediation runs as the watchdog itself, which never holds the lease
+  setActionValidator((type, args) => commandProcessor.requiresLeaseHolder(type)
+    ? [{ field: "type", message: `${type} can only be run by the lease holder and can't be a remediation action` }]
+    : commandProcessor.validate(type, args));
+  const rules = loadRules();
+  if (!rules.ok) {
+    eventEmitter.emitLifecycle("RULES_INVALID", "ERROR", { errors: rules.errors });
+  }
+  watchRules((result) => {
+    if (result.ok) {
+      eventEmitter.emitLifecycle("RULES_RELOADED", "INFO", { conditions: result.snapshot.conditions.length });
+    } else {
+      eventEmitter.emitLifecycle("RULES_INVALID", "ERROR", { errors: result.errors });
+    }
+  });
+
+  // Automatic remediation of conditions (policies from rules.ts)
+  const remediation = new RemediationEngine(commandProcessor, leaseManager, eventEmitter);
+
+  // Maintenance windows hold their conditions inactive — no events, mode changes or remediation
+  setSuppressionFilter((conditionId) => scheduler.isSuppressed(conditionId));
+  scheduler.start();
+
   // Start background polling for slow collectors
   startSystemPolling();
   startNetworkPolling(config.httpPort);
   startAppPolling();
 
-  // Emit lifecycle event (before MQTT — will be buffered)
+  // Emit lifecycle event (before MQTT — buffered in the outbox until connected)
   eventEmitter.emitLifecycle("WATCHDOG_STARTED", "INFO", { wallId });
 
   // Wait a moment for initial polls to populate caches
@@ -304,7 +641,26 @@ async function main() {
   // --- Connect MQTT with unified message handler ---
   console.log("[watchdog] Connecting to MQTT broker...");
 
-  await connectMqtt(wallId, (topic, payload) => {
+  // Clear stale retained messages, publish initial stopped status and carry the lease over (on every new broker)
+  function onBrokerReady() {
+    clearWebrtcOffer(wallId);
+    publishInitialStreamStatus();
+    leaseManager.republish();
+  }
+
+  setBrokerSwitchHandler(({ from, to, reason }) => {
+    eventEmitter.emitLifecycle("BROKER_SWITCHED", "WARN", { from, to, reason });
+    onBrokerReady();
+  });
+
+  // First connection — at startup, or later through failover if no broker was reachable yet
+  setBrokerConnectedHandler(() => {
+    console.log("[watchdog] MQTT connected");
+    eventEmitter.emitLifecycle("BROKER_CONNECTED", "INFO", {});
+    onBrokerReady();
+  });
+
+  const mqttClient = await connectMqtt(wallId, (topic, payload) => {
     try {
       const msg = JSON.parse(payload.toString());
 
@@ -316,9 +672,9 @@ async function main() {
         return;
       }
 
-      // Lease updates: watchdog/{wallId}/lease
+      // Retained lease: watchdog/{wallId}/lease — only the watchdog's own message stands
       if (topic === TOPICS.lease(wallId)) {
-        leaseManager.update(msg as LeasePayload);
+        leaseManager.reconcile(msg as LeasePayload);
         return;
       }
 
@@ -330,28 +686,16 @@ async function main() {
     } catch {}
   });
 
-  console.log("[watchdog] MQTT connected");
-  eventEmitter.emitLifecycle("BROKER_CONNECTED", "INFO", {});
-
-  // Clear stale retained messages and publish initial stopped status
-  clearWebrtcOffer(wallId);
-  publishInitialStreamStatus();
-
-  const client = getActiveClient();
-  if (client) {
-    client.on("error", (err) => {
-      console.error("[watchdog] MQTT error:", err.message);
-    });
-    client.on("reconnect", () => {
-      console.log("[watchdog] MQTT reconnecting...");
-    });
+  if (!mqttClient) {
+    // Failover monitor keeps retrying; events are buffered in the outbox meanwhile
+    console.log("[watchdog] MQTT unavailable — continuing offline");
   }
 
   // Start local dashboard server
   startServer(wallId);
 
   // Launch system tray icon
-  startTray(wallId);
+  if (isWindows) startTray(wallId);
 
   // Start OSC listener — forwards commands to MQTT + local dashboard
   const oscPort = getOscPort();
@@ -389,6 +733,7 @@ async function main() {
       // Edge-trigger events from condition changes
       eventEmitter.updateConditions(conditions);
       eventEmitter.updateMode(mode);
+      remediation.update(conditions);
 
       // Build health summary
       const health = buildHealth(wallId, telemetry, mode, conditions);
@@ -402,8 +747,12 @@ async function main() {
       // Publish
       publishTelemetry(wallId, telemetry);   // NOT retained
       publishHealth(wallId, health);          // retained
+      publishSparkplug(telemetry, mode);      // Sparkplug B NDATA/DDATA (if enabled)
       updateTelemetry(telemetry);             // WebSocket
       broadcastHealth(health);                // WebSocket
+      recordTelemetry(telemetry);             // history (downsampled)
+      recordHealth(health);                   // history (mode changes only)
+      exportTelemetry(telemetry);             // OTLP metrics (batched)
     } catch (err: any) {
       console.error("[watchdog] Error publishing:", err.message);
     }
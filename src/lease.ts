@@ -1,23 +1,108 @@
+import * as fs from "fs";
 import type { LeasePayload } from "./types";
 import type { CommandDef } from "./commands";
+import type { WatchdogEventEmitter } from "./events";
+import { publishLease } from "./mqtt";
+import { dataPath } from "./config";
+import { recordLeaseGranted, recordLeaseEnded } from "./history";
 
+export const LEASE_MAX_SEC = Number(process.env.LEASE_MAX_SEC) || 30 * 60;
+export const LEASE_DEFAULT_SEC = Math.min(5 * 60, LEASE_MAX_SEC);
+const LEASE_WARN_SEC = Number(process.env.LEASE_WARN_SEC) || 30;   // LEASE_EXPIRING this long before expiry
+
+interface PersistedLease {
+  owner: string | null;
+  expiresTs: number;
+  waiting: [clientId: string, since: number][];
+}
+
+function leasePath(): string {
+  return dataPath("lease.json");
+}
+
+export type LeaseChangeCallback = (lease: LeasePayload) => void;
+
+/**
+ * The watchdog is the lease authority: clients acquire, renew and release it with
+ * LEASE_* commands and the watchdog publishes the canonical retained lease.
+ * Anything else on the lease topic is overwritten. The lease is persisted to
+ * lease.json so it survives a watchdog restart or a switch to another broker.
+ */
 export class LeaseManager {
+  private wallId: string;
+  private eventEmitter: WatchdogEventEmitter;
+  private onChange: LeaseChangeCallback;
   private owner: string | null = null;
   private expiresTs: number = 0;
+  private waiting = new Map<string, number>();   // clientId → first refused acquire
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+  private warnTimer: ReturnType<typeof setTimeout> | null = null;
 
-  /** Update lease from MQTT message (retained lease topic) */
-  update(payload: LeasePayload): void {
-    const now = Date.now();
+  constructor(wallId: string, eventEmitter: WatchdogEventEmitter, onChange: LeaseChangeCallback) {
+    this.wallId = wallId;
+    this.eventEmitter = eventEmitter;
+    this.onChange = onChange;
+    this.load();
+  }
 
-    // If there's a current valid lease from a different owner, reject
-    if (this.owner && this.owner !== payload.owner && this.expiresTs > now) {
-      console.log(`[lease] Rejected lease request from ${payload.owner} — held by ${this.owner} until ${new Date(this.expiresTs).toISOString()}`);
-      return;
+  /** Grant the lease, or throw if another client holds it */
+  acquire(clientId: string, durationSec: number = LEASE_DEFAULT_SEC): LeasePayload {
+    const holder = this.getOwner();
+    if (holder && holder !== clientId) {
+      if (!this.waiting.has(clientId)) this.waiting.set(clientId, Date.now());
+      this.publish();
+      throw new Error(`Lease held by ${holder} until ${new Date(this.expiresTs).toISOString()}`);
     }
+    if (holder === clientId) return this.renew(clientId, durationSec);
+
+    this.waiting.delete(clientId);
+    this.grant(clientId, durationSec);
+    recordLeaseGranted(clientId, Date.now());
+    console.log(`[lease] Granted to ${clientId} until ${new Date(this.expiresTs).toISOString()}`);
+    this.eventEmitter.emitLifecycle("LEASE_GRANTED", "INFO", { owner: clientId, expiresTs: this.expiresTs });
+    return this.publish();
+  }
+
+  /** Extend the caller's lease, or throw if it doesn't hold it */
+  renew(clientId: string, durationSec: number = LEASE_DEFAULT_SEC): LeasePayload {
+    this.assertOwner(clientId);
+    this.grant(clientId, durationSec);
+    this.eventEmitter.emitLifecycle("LEASE_RENEWED", "INFO", { owner: clientId, expiresTs: this.expiresTs });
+    return this.publish();
+  }
+
+  /** Give the lease up early */
+  release(clientId: string): LeasePayload {
+    this.assertOwner(clientId);
+    console.log(`[lease] Released by ${clientId}`);
+    this.clear();
+    recordLeaseEnded(Date.now(), "RELEASED");
+    this.eventEmitter.emitLifecycle("LEASE_RELEASED", "INFO", { owner: clientId });
+    return this.publish();
+  }
 
-    this.owner = payload.owner;
-    this.expiresTs = payload.expiresTs;
-    console.log(`[lease] Lease granted to ${payload.owner} until ${new Date(payload.expiresTs).toISOString()}`);
+  /** Break glass — take the lease away from whoever holds it */
+  revoke(by: string, reason: string = "revoked locally"): LeasePayload {
+    const owner = this.getOwner();
+    if (!owner) throw new Error("No active lease");
+    console.log(`[lease] Lease of ${owner} revoked by ${by}`);
+    this.clear();
+    recordLeaseEnded(Date.now(), "REVOKED", by);
+    this.eventEmitter.emitLifecycle("LEASE_REVOKED", "WARN", { owner, by, reason });
+    return this.publish();
+  }
+
+  /** Publish the current lease again, e.g. to a broker that was just connected */
+  republish(): void {
+    publishLease(this.wallId, this.getPayload());
+  }
+
+  /** A message on the retained lease topic — restore the canonical lease if it differs */
+  reconcile(payload: Partial<LeasePayload>): void {
+    const current = this.getPayload();
+    if (payload?.owner === current.owner && payload?.expiresTs === current.expiresTs) return;
+    console.log(`[lease] Overwriting lease message for ${payload?.owner ?? "nobody"} not issued by the watchdog`);
+    this.publish();
   }
 
   /** Check if a lease is currently active */
@@ -44,6 +129,125 @@ export class LeaseManager {
       active: this.isActive(),
     };
   }
+
+  /** The canonical retained lease message */
+  getPayload(): LeasePayload {
+    const active = this.isActive();
+    return {
+      schema: "vu.watchdog.lease.v1",
+      ts: Date.now(),
+      owner: active ? this.owner : null,
+      expiresTs: active ? this.expiresTs : 0,
+      waiting: [...this.waiting.keys()],
+    };
+  }
+
+  private assertOwner(clientId: string): void {
+    const holder = this.getOwner();
+    if (holder !== clientId) throw new Error(holder ? `Lease held by ${holder}` : "No active lease");
+  }
+
+  private grant(clientId: string, durationSec: number): void {
+    this.owner = clientId;
+    this.expiresTs = Date.now() + Math.min(durationSec, LEASE_MAX_SEC) * 1000;
+    this.scheduleTimers();
+  }
+
+  private scheduleTimers(): void {
+    this.clearTimers();
+    const remainingMs = this.expiresTs - Date.now();
+    this.expiryTimer = setTimeout(() => this.expire(), remainingMs);
+    // Leases shorter than the warning lead get no warning
+    if (remainingMs > LEASE_WARN_SEC * 1000) {
+      this.warnTimer = setTimeout(() => this.warnExpiring(), remainingMs - LEASE_WARN_SEC * 1000);
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.expiryTimer) clearTimeout(this.expiryTimer);
+    if (this.warnTimer) clearTimeout(this.warnTimer);
+    this.expiryTimer = null;
+    this.warnTimer = null;
+  }
+
+  private warnExpiring(): void {
+    const owner = this.getOwner();
+    if (!owner) return;
+    this.eventEmitter.emitLifecycle("LEASE_EXPIRING", "WARN", {
+      owner,
+      expiresTs: this.expiresTs,
+      remainingSec: Math.round((this.expiresTs - Date.now()) / 1000),
+    });
+  }
+
+  private expire(): void {
+    const owner = this.owner;
+    if (!owner) return;
+    const expiredAt = this.expiresTs;
+    console.log(`[lease] Lease of ${owner} expired`);
+    this.clear();
+    recordLeaseEnded(expiredAt, "EXPIRED");
+    this.eventEmitter.emitLifecycle("LEASE_EXPIRED", "WARN", { owner });
+    this.publish();
+  }
+
+  /** Clears the holder; refused clients stay listed for one max lease duration */
+  private clear(): void {
+    this.owner = null;
+    this.expiresTs = 0;
+    this.clearTimers();
+    const cutoff = Date.now() - LEASE_MAX_SEC * 1000;
+    for (const [clientId, since] of this.waiting) {
+      if (since < cutoff) this.waiting.delete(clientId);
+    }
+  }
+
+  private publish(): LeasePayload {
+    const payload = this.getPayload();
+    publishLease(this.wallId, payload);
+    this.onChange(payload);
+    this.save();
+    return payload;
+  }
+
+  // --- Persistence ---
+
+  /** Restore the lease from the last run; one that ran out while we were down expires now */
+  private load(): void {
+    let saved: PersistedLease;
+    try {
+      saved = JSON.parse(fs.readFileSync(leasePath(), "utf-8"));
+    } catch (err: any) {
+      if (err.code !== "ENOENT") console.error("[lease] Failed to read saved lease:", err.message);
+      return;
+    }
+
+    for (const [clientId, since] of Array.isArray(saved.waiting) ? saved.waiting : []) {
+      this.waiting.set(clientId, since);
+    }
+    if (typeof saved.owner !== "string" || typeof saved.expiresTs !== "number") return;
+
+    this.owner = saved.owner;
+    this.expiresTs = saved.expiresTs;
+    if (this.isActive()) {
+      console.log(`[lease] Restored lease of ${saved.owner} until ${new Date(saved.expiresTs).toISOString()}`);
+      this.scheduleTimers();
+      this.eventEmitter.emitLifecycle("LEASE_RESTORED", "INFO", { owner: saved.owner, expiresTs: saved.expiresTs });
+    } else {
+      this.expire();
+    }
+  }
+
+  private save(): void {
+    const state: PersistedLease = { owner: this.getOwner(), expiresTs: this.expiresTs, waiting: [...this.waiting] };
+    try {
+      const file = leasePath();
+      fs.writeFileSync(`${file}.tmp`, JSON.stringify(state));
+      fs.renameSync(`${file}.tmp`, file);
+    } catch (err: any) {
+      console.error("[lease] Failed to persist lease:", err.message);
+    }
+  }
 }
 
 /** Validate whether a client is allowed to execute a command */
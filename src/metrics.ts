@@ -0,0 +1,202 @@
+import type { TelemetryPayload, OperationalMode, AckStatus, VolumeMetrics } from "./types";
+import type { ConditionState } from "./health";
+
+// --- Prometheus / OpenMetrics exposition for GET /metrics ---
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+export const OPENMETRICS_CONTENT_TYPE = "application/openmetrics-text; version=1.0.0; charset=utf-8";
+
+const PREFIX = "watchdog_";
+
+const MODES: OperationalMode[] = ["STARTING", "READY", "DEGRADED", "CRITICAL", "SHUTTING_DOWN"];
+const ACK_STATUSES: AckStatus[] = ["RECEIVED", "ACCEPTED", "PROGRESS", "APPLIED", "REJECTED", "FAILED", "EXPIRED", "CANCELLED"];
+
+/** Everything /metrics reports, gathered by the server at scrape time */
+export interface MetricsSnapshot {
+  wallId: string;
+  telemetry: TelemetryPayload | null;
+  mode: OperationalMode | null;
+  conditions: ConditionState[];
+  mqtt: { connected: boolean; brokerId: string; outboxPending: number };
+}
+
+// --- Ack counters ---
+
+const ackCounts = new Map<AckStatus, number>(ACK_STATUSES.map((s) => [s, 0]));
+
+/** Count an ack sent by the command processor */
+export function recordAck(status: AckStatus): void {
+  ackCounts.set(status, (ackCounts.get(status) ?? 0) + 1);
+}
+
+// --- Telemetry gauges ---
+
+export interface GaugeDef {
+  name: string;
+  help: string;
+  value: (t: TelemetryPayload) => number | boolean | null | undefined;
+}
+
+// Every numeric (and boolean, as 0/1) field of collectSystem/collectNetwork/collectApp/collectWatchdog.
+// Null values (no GPU, Vu One not running, ...) are left out of the scrape.
+export const TELEMETRY_GAUGES: GaugeDef[] = [
+  { name: "system_cpu_usage_percent", help: "CPU usage", value: (t) => t.system.cpuUsage },
+  { name: "system_cpu_cores", help: "Logical CPU cores", value: (t) => t.system.cpuCores },
+  { name: "system_ram_total_mb", help: "Total RAM", value: (t) => t.system.ramTotalMB },
+  { name: "system_ram_used_mb", help: "Used RAM", value: (t) => t.system.ramUsedMB },
+  { name: "system_ram_usage_percent", help: "RAM usage", value: (t) => t.system.ramPercent },
+  { name: "system_gpu_usage_percent", help: "GPU usage", value: (t) => t.system.gpuUsage },
+  { name: "system_gpu_memory_used_mb", help: "Used GPU memory", value: (t) => t.system.gpuMemUsedMB },
+  { name: "system_gpu_memory_total_mb", help: "Total GPU memory", value: (t) => t.system.gpuMemTotalMB },
+  { name: "system_gpu_temperature_celsius", help: "GPU temperature", value: (t) => t.system.gpuTemp },
+  { name: "system_disk_total_mb", help: "Disk size, all volumes combined", value: (t) => t.system.diskTotalMB },
+  { name: "system_disk_used_mb", help: "Used space, all volumes combined", value: (t) => t.system.diskUsedMB },
+  { name: "system_disk_usage_percent", help: "Disk usage, all volumes combined", value: (t) => t.system.diskPercent },
+  { name: "system_disk_read_mbps", help: "Disk read throughput (MB/s)", value: (t) => t.system.diskReadMBps },
+  { name: "system_disk_write_mbps", help: "Disk write throughput (MB/s)", value: (t) => t.system.diskWriteMBps },
+  { name: "system_thermal_throttling", help: "1 if the CPU is thermally throttled", value: (t) => t.system.thermalThrottling },
+  { name: "system_pending_updates", help: "Pending Windows updates", value: (t) => t.system.pendingUpdates },
+  { name: "system_event_log_errors", help: "Recent System event log errors", value: (t) => t.system.eventLog.count },
+  { name: "system_uptime_seconds", help: "Time since boot", value: (t) => t.system.uptime },
+  { name: "network_internet_online", help: "1 if the internet check succeeds", value: (t) => t.network.internetOnline },
+  { name: "network_latency_ms", help: "Internet round-trip latency", value: (t) => t.network.latencyMs },
+  { name: "network_local_server_reachable", help: "1 if the local Vu server responds", value: (t) => t.network.localServerReachable },
+  { name: "network_connected_peers", help: "Connected peers", value: (t) => t.network.connectedPeers },
+  { name: "app_vuos_running", help: "1 if the Vu One OS process is running", value: (t) => t.app.vuosProcessRunning },
+  { name: "app_vuos_memory_mb", help: "Vu One OS working set", value: (t) => t.app.vuosMemoryMB },
+  { name: "app_vuos_responding", help: "1 if the Vu One OS window responds", value: (t) => t.app.vuosProcess?.responding },
+  { name: "app_vuos_threads", help: "Vu One OS threads", value: (t) => t.app.vuosProcess?.threads },
+  { name: "app_vuos_handles", help: "Vu One OS handles", value: (t) => t.app.vuosProcess?.handles },
+  { name: "app_vuos_cpu_time_ms", help: "Vu One OS total CPU time", value: (t) => t.app.vuosProcess?.cpuTimeMs },
+  { name: "app_vuos_gpu_memory_mb", help: "Vu One OS GPU memory", value: (t) => t.app.vuosProcess?.gpuMemoryMB },
+  { name: "app_crashes_today", help: "Vu One OS crashes today", value: (t) => t.app.crashCountToday },
+  { name: "app_server_running", help: "1 if the Vu server process is running", value: (t) => t.app.serverProcessRunning },
+  { name: "app_server_lock_pid", help: "PID in the server lock file", value: (t) => t.app.serverLock?.pid },
+  { name: "app_server_start_timestamp_ms", help: "Server start time from the lock file", value: (t) => t.app.serverLock?.startTime },
+  { name: "app_server_last_heartbeat_timestamp_ms", help: "Last server heartbeat", value: (t) => t.app.serverLock?.lastHeartbeat },
+  { name: "app_server_heartbeat_age_ms", help: "Time since the last server heartbeat", value: (t) => t.app.serverLock?.heartbeatAgeMs },
+  { name: "app_server_lock_healthy", help: "1 if the server heartbeat is fresh", value: (t) => t.app.serverLock?.healthy },
+  { name: "app_log_recent_errors", help: "Recent errors in the Vu One OS log", value: (t) => t.app.logs.recentErrorCount },
+  { name: "self_cpu_usage_percent", help: "CPU used by the watchdog process", value: (t) => t.watchdog.cpuPercent },
+  { name: "self_memory_mb", help: "Watchdog resident memory", value: (t) => t.watchdog.memoryMB },
+  { name: "self_helper_running", help: "1 if the PowerShell metrics helper is running", value: (t) => t.watchdog.helper?.running },
+  { name: "self_helper_restarts", help: "PowerShell helper restarts (crash or timeout)", value: (t) => t.watchdog.helper?.restarts },
+  { name: "self_helper_queries", help: "Queries run by the PowerShell helper", value: (t) => t.watchdog.helper?.queries },
+  { name: "self_helper_timeouts", help: "PowerShell helper queries that timed out", value: (t) => t.watchdog.helper?.timeouts },
+  { name: "self_helper_failures", help: "PowerShell helper queries that failed", value: (t) => t.watchdog.helper?.failures },
+  { name: "self_helper_queued", help: "Queries waiting for the PowerShell helper", value: (t) => t.watchdog.helper?.queued },
+  { name: "self_helper_avg_query_ms", help: "Average PowerShell helper query time", value: (t) => t.watchdog.helper?.avgQueryMs },
+  { name: "self_helper_cpu_usage_percent", help: "CPU used by the PowerShell helper", value: (t) => t.watchdog.helper?.cpuPercent },
+  { name: "self_helper_memory_mb", help: "PowerShell helper working set", value: (t) => t.watchdog.helper?.memoryMB },
+  { name: "telemetry_timestamp_ms", help: "When the telemetry was collected", value: (t) => t.timestamp },
+];
+
+// --- Rendering ---
+
+type Labels = Record<string, string>;
+
+class Exposition {
+  private openMetrics: boolean;
+  private lines: string[] = [];
+
+  constructor(openMetrics: boolean) {
+    this.openMetrics = openMetrics;
+  }
+
+  /** A metric family: HELP/TYPE header followed by its samples */
+  family(name: string, type: "gauge" | "counter", help: string, samples: [Labels, number][]): void {
+    if (samples.length === 0) return;
+    const full = PREFIX + name;
+    // OpenMetrics names the counter family without _total; the text format names it like the sample
+    const familyName = this.openMetrics && type === "counter" ? full.replace(/_total$/, "") : full;
+    this.lines.push(`# HELP ${familyName} ${help}`);
+    this.lines.push(`# TYPE ${familyName} ${type}`);
+    for (const [labels, value] of samples) {
+      this.lines.push(`${full}${formatLabels(labels)} ${formatValue(value)}`);
+    }
+  }
+
+  toString(): string {
+    if (this.openMetrics) this.lines.push("# EOF");
+    return this.lines.join("\n") + "\n";
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/** Render the snapshot as Prometheus text format 0.0.4, or OpenMetrics 1.0 */
+export function renderMetrics(snapshot: MetricsSnapshot, openMetrics = false): string {
+  const out = new Exposition(openMetrics);
+  const wall = { wallId: snapshot.wallId };
+  const t = snapshot.telemetry;
+
+  if (t) {
+    for (const def of TELEMETRY_GAUGES) {
+      const value = def.value(t);
+      if (value === null || value === undefined) continue;
+      out.family(def.name, "gauge", def.help, [[wall, Number(value)]]);
+    }
+    out.family("info", "gauge", "Static facts about the wall PC", [[{
+      ...wall,
+      cpu_model: t.system.cpuModel,
+      gpu_name: t.system.gpuName ?? "",
+      server_version: t.app.serverVersion,
+    }, 1]]);
+  }
+
+  if (snapshot.mode) {
+    out.family("mode", "gauge", "Operational mode (1 for the current mode)",
+      MODES.map((mode) => [{ ...wall, mode }, mode === snapshot.mode ? 1 : 0]));
+  }
+
+  const conditionSamples = (pick: (c: ConditionState) => boolean): [Labels, number][] =>
+    snapshot.conditions.map((c) => [{ ...wall, condition: c.id, level: c.level }, pick(c) ? 1 : 0]);
+  out.family("condition_active", "gauge", "1 if the condition is active (after debounce)", conditionSamples((c) => c.active));
+  out.family("condition_flapping", "gauge", "1 if the condition is flapping", conditionSamples((c) => c.flapping));
+  out.family("condition_suppressed", "gauge", "1 if a maintenance window suppresses the condition", conditionSamples((c) => c.suppressed));
+
+  if (t) {
+    const volumeSamples = (pick: (v: VolumeMetrics) => number | null): [Labels, number][] =>
+      t.system.volumes.flatMap((v) => {
+        const value = pick(v);
+        return value === null ? [] : [[{ ...wall, mount: v.mount, label: v.label ?? "" }, value] as [Labels, number]];
+      });
+    out.family("volume_total_mb", "gauge", "Volume size", volumeSamples((v) => v.totalMB));
+    out.family("volume_free_mb", "gauge", "Free space on the volume", volumeSamples((v) => v.freeMB));
+    out.family("volume_usage_percent", "gauge", "Volume usage", volumeSamples((v) => v.percent));
+    out.family("volume_read_mbps", "gauge", "Volume read throughput (MB/s)", volumeSamples((v) => v.readMBps));
+    out.family("volume_write_mbps", "gauge", "Volume write throughput (MB/s)", volumeSamples((v) => v.writeMBps));
+
+    const collectors = Object.entries(t.collectors);
+    out.family("collector_last_success_timestamp_ms", "gauge", "Last successful refresh of each background collector",
+      collectors.filter(([, c]) => c.collectedAt !== null).map(([name, c]) => [{ ...wall, collector: name }, c.collectedAt!]));
+    out.family("collector_consecutive_errors", "gauge", "Failures since the collector last succeeded",
+      collectors.map(([name, c]) => [{ ...wall, collector: name }, c.errors]));
+    out.family("collector_stale", "gauge", "1 if the collector hasn't refreshed within its staleness window",
+      collectors.map(([name, c]) => [{ ...wall, collector: name }, c.stale ? 1 : 0]));
+  }
+
+  out.family("command_acks_total", "counter", "Command acks sent, by status",
+    [...ackCounts].map(([status, count]) => [{ ...wall, status }, count]));
+
+  out.family("mqtt_connected", "gauge", "1 if connected to the active MQTT broker",
+    [[{ ...wall, broker: snapshot.mqtt.brokerId }, snapshot.mqtt.connected ? 1 : 0]]);
+  out.family("mqtt_outbox_pending", "gauge", "QoS 1 messages buffered for the broker",
+    [[wall, snapshot.mqtt.outboxPending]]);
+
+  return out.toString();
+}
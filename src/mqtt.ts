@@ -1,55 +1,14 @@
-import mqtt, { type MqttClient } from "mqtt";
+import mqtt, { type MqttClient, type IClientPublishOptions } from "mqtt";
 import type { TelemetryPayload, HealthPayload, EventPayload, AckPayload, LeasePayload } from "./types";
+import { enqueue, drain, isBacklogged } from "./outbox";
+import { getBrokers, getBrokerById, getWallPriority, getDashboardBrokers, type BrokerConfig } from "./credentials";
+import { mirrorPublish, subscribeUnsCommands, toWatchdogTopic, startUnsPresence, stopUnsPresence } from "./uns";
+import { startSparkplug, stopSparkplug } from "./sparkplug";
 
-export interface BrokerConfig {
-  id: string;
-  label: string;
-  url: string;       // server-side (mqtts:// or mqtt://)
-  wsUrl: string;     // dashboard (wss://)
-  username: string;
-  password: string;
-}
-
-// Broker presets
-const BROKERS: BrokerConfig[] = [
-  {
-    id: "railway",
-    label: "RND",
-    url: process.env.MQTT_BROKER_URL || "mqtt://tramway.proxy.rlwy.net:20979",
-    wsUrl: process.env.MQTT_BROKER_WS_URL || "wss://mqtt.vu.studio/mqtt",
-    username: process.env.MQTT_USERNAME || "dev",
-    password: process.env.MQTT_PASSWORD || "testing",
-  },
-  {
-    id: "dev",
-    label: "DEV (EMQX)",
-    url: process.env.MQTT2_BROKER_URL || "mqtts://ic7c613e.ala.dedicated.aws.emqxcloud.com:8883",
-    wsUrl: process.env.MQTT2_BROKER_WS_URL || "wss://ic7c613e.ala.dedicated.aws.emqxcloud.com:8084/mqtt",
-    username: process.env.MQTT2_USERNAME || "dev",
-    password: process.env.MQTT2_PASSWORD || "FQciaThxNmd3awq6",
-  },
-  {
-    id: "prod",
-    label: "PROD (EMQX)",
-    url: process.env.MQTT3_BROKER_URL || "mqtts://me19067f.ala.us-east-1.emqxsl.com:8883",
-    wsUrl: process.env.MQTT3_BROKER_WS_URL || "wss://me19067f.ala.us-east-1.emqxsl.com:8084/mqtt",
-    username: process.env.MQTT3_USERNAME || "production",
-    password: process.env.MQTT3_PASSWORD || "78aa8db9-01e5-4038-b506-1ace676ef85d",
-  },
-];
-
-export function getBrokers(): BrokerConfig[] {
-  return BROKERS;
-}
-
-export function getBrokerById(id: string): BrokerConfig | undefined {
-  return BROKERS.find((b) => b.id === id);
-}
-
-/** Broker configs for the dashboard client (WSS URLs only) */
+/** Broker configs for the dashboard client (WSS URLs and scoped tokens, no passwords) */
 export function getMqttBrokerConfig() {
   return {
-    brokers: BROKERS.map((b) => ({ id: b.id, label: b.label, url: b.wsUrl, username: b.username, password: b.password })),
+    brokers: getDashboardBrokers(),
     activeBrokerId: activeBrokerId,
   };
 }
@@ -76,11 +35,42 @@ export const TOPICS = {
 
 export type MessageHandler = (topic: string, payload: Buffer) => void;
 
+export type BrokerSwitchHandler = (info: { from: string | null; to: string; reason: "failover" | "failback" | "manual" }) => void;
+export type BrokerConnectedHandler = (brokerId: string) => void;
+
+// --- Failover policy ---
+
+const FAILOVER_AFTER_MS = Number(process.env.MQTT_FAILOVER_AFTER_MS) || 60_000;  // disconnected this long → next broker
+const FAILBACK_ENABLED = (process.env.MQTT_FAILBACK || "true").toLowerCase() === "true";
+const FAILBACK_CHECK_MS = Number(process.env.MQTT_FAILBACK_CHECK_MS) || 5 * 60_000;
+const FAILOVER_CHECK_INTERVAL_MS = 5_000;
+
+/**
+ * Brokers in failover order: MQTT_BROKER_PRIORITY (comma-separated ids) or the
+ * wall's priority from the credentials file first, then the rest as listed
+ */
+function brokerPriority(): BrokerConfig[] {
+  const envPriority = (process.env.MQTT_BROKER_PRIORITY || "").split(",").map((id) => id.trim()).filter(Boolean);
+  const ranked = (envPriority.length > 0 ? envPriority : getWallPriority())
+    .map((id) => getBrokerById(id))
+    .filter((b): b is BrokerConfig => b !== undefined);
+  return [...ranked, ...getBrokers().filter((b) => !ranked.includes(b))];
+}
+
 let activeClient: MqttClient | null = null;
-let activeBrokerId: string = BROKERS[0].id;
+let activeBrokerId: string = "";
+let preferredBrokerId: string = "";   // failback target; follows manual switches
 let activeWallId: string = "";
 let activeMessageHandler: MessageHandler | undefined;
 
+let disconnectedSince: number | null = null;
+let lastFailbackCheck = 0;
+let switching = false;
+let failoverTimer: Timer | null = null;
+let onBrokerSwitched: BrokerSwitchHandler | null = null;
+let onFirstConnect: BrokerConnectedHandler | null = null;
+let everConnected = false;
+
 function createClient(
   broker: BrokerConfig,
   wallId: string
@@ -109,13 +99,26 @@ function createClient(
       },
     });
 
+    let settled = false;
+    const fail = (err: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      // Don't leave a rejected client reconnecting in the background
+      try {
+        client.end(true);
+      } catch {}
+      reject(err);
+    };
+
     const timeout = setTimeout(() => {
-      reject(new Error(`MQTT connection timeout (${broker.label})`));
+      fail(new Error(`MQTT connection timeout (${broker.label})`));
     }, 15_000);
 
     client.on("connect", () => {
       clearTimeout(timeout);
-      client.publish(
+      publishTo(
+        client,
         TOPICS.status(wallId),
         JSON.stringify({
           status: "online",
@@ -126,44 +129,224 @@ function createClient(
         { qos: 1, retain: true }
       );
       console.log(`[mqtt] Connected to ${broker.label}`);
+      // Replay anything buffered while disconnected (also runs on every reconnect)
+      drainOutbox(client);
+      settled = true;
       resolve(client);
     });
 
     client.on("error", (err) => {
-      clearTimeout(timeout);
-      reject(err);
+      if (!settled) {
+        fail(err);
+        return;
+      }
+      console.error(`[mqtt] ${broker.label} error:`, err.message);
+    });
+
+    client.on("reconnect", () => {
+      console.log(`[mqtt] Reconnecting to ${broker.label}...`);
     });
   });
 }
 
+/** Connect-and-disconnect check used before failing back (no LWT, no status publish) */
+function probeBroker(broker: BrokerConfig): Promise<boolean> {
+  return new Promise((resolve) => {
+    const client = mqtt.connect(broker.url, {
+      username: broker.username || undefined,
+      password: broker.password || undefined,
+      clientId: `watchdog-probe-${broker.id}-${activeWallId}-${Date.now()}`,
+      clean: true,
+      reconnectPeriod: 0,
+      connectTimeout: 10_000,
+    });
+    const done = (ok: boolean) => {
+      try {
+        client.end(true);
+      } catch {}
+      resolve(ok);
+    };
+    client.once("connect", () => done(true));
+    client.once("error", () => done(false));
+    client.once("close", () => done(false));
+  });
+}
+
 function subscribeTopics(client: MqttClient, wallId: string, onMessage?: MessageHandler) {
   // Subscribe to all inbound topics
   client.subscribe(TOPICS.control(wallId), { qos: 1 });     // legacy
   client.subscribe(TOPICS.commandSub(wallId), { qos: 1 });  // new command plane
   client.subscribe(TOPICS.lease(wallId), { qos: 1 });       // lease updates
+  subscribeUnsCommands(client, wallId);                      // UNS command plane (if enabled)
 
   client.on("message", (topic, payload) => {
     if (onMessage) {
-      onMessage(topic, payload);
+      onMessage(toWatchdogTopic(topic, wallId), payload);
     }
   });
 }
 
+/**
+ * Make a freshly connected client the active one and track its disconnections.
+ * Returns true for the first broker connection since startup, whichever path made it.
+ */
+function attachClient(client: MqttClient, broker: BrokerConfig): boolean {
+  activeClient = client;
+  activeBrokerId = broker.id;
+  disconnectedSince = null;
+  subscribeTopics(client, activeWallId, activeMessageHandler);
+  startUnsPresence(broker, activeWallId);
+  startSparkplug(broker, activeWallId);
+
+  client.on("close", () => {
+    if (client === activeClient && disconnectedSince === null) disconnectedSince = Date.now();
+  });
+  client.on("connect", () => {
+    if (client === activeClient) disconnectedSince = null;
+  });
+
+  if (everConnected) return false;
+  everConnected = true;
+  onFirstConnect?.(broker.id);
+  return true;
+}
+
+function detachClient(): void {
+  stopUnsPresence();
+  stopSparkplug();
+  if (activeClient) {
+    try {
+      activeClient.end(true);
+    } catch {}
+  }
+  activeClient = null;
+}
+
+/** Try brokers in order, return the first that connects */
+async function connectFirstAvailable(candidates: BrokerConfig[]): Promise<{ client: MqttClient; broker: BrokerConfig } | null> {
+  for (const broker of candidates) {
+    try {
+      return { client: await createClient(broker, activeWallId), broker };
+    } catch (err: any) {
+      console.error(`[mqtt] ${broker.label} unavailable: ${err.message}`);
+    }
+  }
+  return null;
+}
+
+export function setBrokerSwitchHandler(handler: BrokerSwitchHandler): void {
+  onBrokerSwitched = handler;
+}
+
+/** Called once, when the first broker connects — at startup or later through failover */
+export function setBrokerConnectedHandler(handler: BrokerConnectedHandler): void {
+  onFirstConnect = handler;
+}
+
+/**
+ * Connect to the first reachable broker in priority order. Resolves null if none
+ * is reachable — the failover monitor keeps retrying and messages are buffered.
+ */
 export async function connectMqtt(
   wallId: string,
   onMessage?: MessageHandler
-): Promise<MqttClient> {
+): Promise<MqttClient | null> {
   activeWallId = wallId;
   activeMessageHandler = onMessage;
+  activeBrokerId = preferredBrokerId = brokerPriority()[0]?.id ?? "";
+
+  const result = await connectFirstAvailable(brokerPriority());
+  if (result) {
+    attachClient(result.client, result.broker);
+  } else {
+    console.error("[mqtt] No broker reachable — retrying in background");
+    disconnectedSince = Date.now() - FAILOVER_AFTER_MS;
+  }
 
-  const broker = BROKERS[0]; // default to first (EMQX)
-  activeBrokerId = broker.id;
-  activeClient = await createClient(broker, wallId);
-  subscribeTopics(activeClient, wallId, onMessage);
-
+  failoverTimer ??= setInterval(checkFailover, FAILOVER_CHECK_INTERVAL_MS);
   return activeClient;
 }
 
+async function checkFailover(): Promise<void> {
+  if (switching) return;
+
+  if (activeClient?.connected) {
+    await checkFailback();
+    return;
+  }
+  if (disconnectedSince === null || Date.now() - disconnectedSince < FAILOVER_AFTER_MS) return;
+
+  switching = true;
+  try {
+    const from = activeClient ? activeBrokerId : null;
+    // Other brokers first, the one that just failed last
+    const order = brokerPriority();
+    const candidates = [...order.filter((b) => b.id !== from), ...order.filter((b) => b.id === from)];
+
+    console.log(`[mqtt] Disconnected for ${Math.round((Date.now() - disconnectedSince) / 1000)}s — failing over...`);
+    detachClient();
+
+    const result = await connectFirstAvailable(candidates);
+    if (!result) {
+      console.error("[mqtt] Failover: no broker reachable, will retry");
+      disconnectedSince = Date.now();
+      return;
+    }
+
+    const first = attachClient(result.client, result.broker);
+    if (!first && result.broker.id !== from) {
+      console.log(`[mqtt] Failed over to ${result.broker.label}`);
+      onBrokerSwitched?.({ from, to: result.broker.id, reason: "failover" });
+    }
+  } finally {
+    switching = false;
+  }
+}
+
+/** Return to the preferred broker once it is reachable again */
+async function checkFailback(): Promise<void> {
+  if (!FAILBACK_ENABLED || activeBrokerId === preferredBrokerId) return;
+  if (Date.now() - lastFailbackCheck < FAILBACK_CHECK_MS) return;
+  lastFailbackCheck = Date.now();
+
+  const preferred = getBrokerById(preferredBrokerId);
+  if (!preferred || !(await probeBroker(preferred))) return;
+
+  const from = activeBrokerId;
+  try {
+    await switchTo(preferred);
+    onBrokerSwitched?.({ from, to: preferred.id, reason: "failback" });
+  } catch (err: any) {
+    console.error(`[mqtt] Failback to ${preferred.label} failed: ${err.message}`);
+  }
+}
+
+async function switchTo(broker: BrokerConfig): Promise<MqttClient> {
+  switching = true;
+  try {
+    console.log(`[mqtt] Switching to ${broker.label}...`);
+
+    // Disconnect old broker (no fake offline — event system handles this)
+    detachClient();
+    activeBrokerId = broker.id;
+
+    let client: MqttClient;
+    try {
+      client = await createClient(broker, activeWallId);
+    } catch (err) {
+      // Leave recovery to the failover monitor
+      disconnectedSince = Date.now();
+      throw err;
+    }
+    attachClient(client, broker);
+
+    console.log(`[mqtt] Switched to ${broker.label}`);
+    return client;
+  } finally {
+    switching = false;
+  }
+}
+
 /** Switch the watchdog to a different broker. Returns the new client. */
 export async function switchBroker(brokerId: string): Promise<MqttClient> {
   const broker = getBrokerById(brokerId);
@@ -172,21 +355,13 @@ export async function switchBroker(brokerId: string): Promise<MqttClient> {
     return activeClient;
   }
 
-  console.log(`[mqtt] Switching to ${broker.label}...`);
-
-  // Disconnect old broker (no fake offline — event system handles this)
-  if (activeClient) {
-    try {
-      activeClient.end(true);
-    } catch {}
-  }
-
-  activeBrokerId = brokerId;
-  activeClient = await createClient(broker, activeWallId);
-  subscribeTopics(activeClient, activeWallId, activeMessageHandler);
-
-  console.log(`[mqtt] Switched to ${broker.label}`);
-  return activeClient;
+  // A manual choice becomes the failback target
+  preferredBrokerId = brokerId;
+  const from = activeClient ? activeBrokerId : null;
+  const wasConnected = everConnected;   // otherwise attachClient reports the first connection instead
+  const client = await switchTo(broker);
+  if (wasConnected) onBrokerSwitched?.({ from, to: brokerId, reason: "manual" });
+  return client;
 }
 
 export function getActiveClient(): MqttClient | null {
@@ -199,55 +374,77 @@ export function getActiveBrokerId(): string {
 
 // --- Publish functions ---
 
+/** Every watchdog publish goes through here so the UNS shadow tree stays in step */
+function publishTo(client: MqttClient, topic: string, payload: string, opts: IClientPublishOptions): void {
+  client.publish(topic, payload, opts);
+  mirrorPublish(client, activeWallId, topic, payload, opts);
+}
+
+/** Replay the outbox, mirroring each replayed message too */
+function drainOutbox(client: MqttClient): void {
+  drain(client, (topic, payload, retain) => mirrorPublish(client, activeWallId, topic, payload, { qos: 1, retain }));
+}
+
 export function publishTelemetry(wallId: string, data: TelemetryPayload): void {
   if (!activeClient) return;
-  activeClient.publish(TOPICS.telemetry(wallId), JSON.stringify(data), { qos: 0, retain: false });
+  publishTo(activeClient, TOPICS.telemetry(wallId), JSON.stringify(data), { qos: 0, retain: false });
+}
+
+/**
+ * QoS 1 publish that survives broker outages: goes through the durable outbox
+ * when disconnected (or while a backlog is replaying, to keep ordering).
+ */
+function publishDurable(topic: string, payload: string, retain: boolean): void {
+  if (activeClient?.connected && !isBacklogged()) {
+    publishTo(activeClient, topic, payload, { qos: 1, retain });
+    return;
+  }
+  enqueue(topic, payload, retain);
+  if (activeClient?.connected) drainOutbox(activeClient);
 }
 
 export function publishHealth(wallId: string, data: HealthPayload): void {
-  if (!activeClient) return;
-  activeClient.publish(TOPICS.health(wallId), JSON.stringify(data), { qos: 1, retain: true });
+  publishDurable(TOPICS.health(wallId), JSON.stringify(data), true);
 }
 
 export function publishConfig(wallId: string, data: object): void {
   if (!activeClient) return;
-  activeClient.publish(TOPICS.config(wallId), JSON.stringify(data), { qos: 0, retain: true });
+  publishTo(activeClient, TOPICS.config(wallId), JSON.stringify(data), { qos: 0, retain: true });
 }
 
 export function publishCommand(wallId: string, data: object): void {
   if (!activeClient) return;
-  activeClient.publish(TOPICS.commands(wallId), JSON.stringify(data), { qos: 0, retain: false });
+  publishTo(activeClient, TOPICS.commands(wallId), JSON.stringify(data), { qos: 0, retain: false });
 }
 
 export function publishEvent(wallId: string, data: EventPayload): void {
-  if (!activeClient) return;
-  activeClient.publish(TOPICS.event(wallId), JSON.stringify(data), { qos: 1, retain: false });
+  publishDurable(TOPICS.event(wallId), JSON.stringify(data), false);
 }
 
 export function publishAck(wallId: string, clientId: string, data: AckPayload): void {
-  if (!activeClient) return;
-  activeClient.publish(TOPICS.ack(wallId, clientId), JSON.stringify(data), { qos: 1, retain: false });
+  publishDurable(TOPICS.ack(wallId, clientId), JSON.stringify(data), false);
 }
 
 export function publishLease(wallId: string, data: LeasePayload): void {
   if (!activeClient) return;
-  activeClient.publish(TOPICS.lease(wallId), JSON.stringify(data), { qos: 1, retain: true });
+  publishTo(activeClient, TOPICS.lease(wallId), JSON.stringify(data), { qos: 1, retain: true });
 }
 
 export function publishStreamStatus(wallId: string, data: object): void {
   if (!activeClient) return;
-  activeClient.publish(TOPICS.streamStatus(wallId), JSON.stringify(data), { qos: 1, retain: true });
+  publishTo(activeClient, TOPICS.streamStatus(wallId), JSON.stringify(data), { qos: 1, retain: true });
 }
 
 export function clearStreamStatus(wallId: string): void {
   if (!activeClient) return;
   // Clear retained message by publishing empty string
-  activeClient.publish(TOPICS.streamStatus(wallId), "", { qos: 1, retain: true });
+  publishTo(activeClient, TOPICS.streamStatus(wallId), "", { qos: 1, retain: true });
 }
 
 export function updateMainStatus(wallId: string, streamStatus: "running" | "stopped"): void {
   if (!activeClient) return;
-  activeClient.publish(
+  publishTo(
+    activeClient,
     TOPICS.status(wallId),
     JSON.stringify({
       status: "online",
@@ -261,5 +458,5 @@ export function updateMainStatus(wallId: string, streamStatus: "running" | "stop
 
 export function clearWebrtcOffer(wallId: string): void {
   if (!activeClient) return;
-  activeClient.publish(`watchdog/${wallId}/webrtc/offer`, "", { qos: 1, retain: true });
+  publishTo(activeClient, `watchdog/${wallId}/webrtc/offer`, "", { qos: 1, retain: true });
 }
@@ -0,0 +1,253 @@
+import type { EventPayload, EventSeverity } from "./types";
+import { getNotificationChannels, type NotificationChannel } from "./credentials";
+
+// --- Delivery policy ---
+
+const MAX_ATTEMPTS = Number(process.env.NOTIFY_MAX_ATTEMPTS) || 5;
+const BACKOFF_BASE_MS = 2_000;          // 2s, 4s, 8s, ... between attempts
+const BACKOFF_MAX_MS = 60_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_PENDING = Number(process.env.NOTIFY_MAX_PENDING) || 100;   // per channel; the oldest are dropped beyond this
+
+const SEVERITY_RANK: Record<EventSeverity, number> = { INFO: 0, WARN: 1, ERROR: 2, CRITICAL: 3 };
+
+export interface TestResult {
+  channel: string;
+  ok: boolean;
+  error?: string;
+}
+
+// --- Filtering and throttling ---
+
+interface ThrottleState {
+  lastSentAt: number;
+  held: number;          // repeats held back since the last delivery
+}
+
+const throttles = new Map<string, ThrottleState>();    // `${channelId}/${eventType}` → state
+const openProblems = new Map<string, Set<string>>();   // channelId → conditions whose _ON was delivered
+
+/** Condition edge events: X_ON, X_OFF and X_REMINDER */
+function conditionEdge(type: string): { condition: string; edge: "ON" | "OFF" | "REMINDER" } | null {
+  const match = /^(.+)_(ON|OFF|REMINDER)$/.exec(type);
+  return match ? { condition: match[1], edge: match[2] as "ON" | "OFF" | "REMINDER" } : null;
+}
+
+function matchesType(patterns: string[], type: string): boolean {
+  if (patterns.length === 0) return true;
+  return patterns.some((p) => (p.endsWith("*") ? type.startsWith(p.slice(0, -1)) : p === type));
+}
+
+/**
+ * Decide whether a channel gets the event. Returns the number of repeats held back
+ * since the last delivery of this type, or null to skip. A condition's _OFF always
+ * goes to channels that were told about its _ON, whatever their filters say, and
+ * an _ON while the condition isn't open on the channel is never throttled.
+ * Exported for tests.
+ */
+export function admit(channel: NotificationChannel, event: EventPayload): number | null {
+  const edge = conditionEdge(event.type);
+  const problems = openProblems.get(channel.id) ?? new Set<string>();
+  openProblems.set(channel.id, problems);
+
+  if (edge?.edge === "OFF" && problems.has(edge.condition)) {
+    problems.delete(edge.condition);
+    return 0;
+  }
+  if (SEVERITY_RANK[event.severity] < SEVERITY_RANK[channel.minSeverity]) return null;
+  if (!matchesType(channel.types, event.type)) return null;
+
+  // Only repeats are throttled. An _ON after the channel was told of the _OFF reopens the
+  // problem, and holding it back would leave the channel showing it as resolved.
+  const reopened = edge?.edge === "ON" && !problems.has(edge.condition);
+  const key = `${channel.id}/${event.type}`;
+  const state = throttles.get(key);
+  const now = Date.now();
+  if (!reopened && state && now - state.lastSentAt < channel.throttleSec * 1000) {
+    state.held++;
+    return null;
+  }
+  throttles.set(key, { lastSentAt: now, held: 0 });
+  if (edge?.edge === "ON") problems.add(edge.condition);
+  return state?.held ?? 0;
+}
+
+// --- Payload formats ---
+
+const SLACK_EMOJI: Record<EventSeverity, string> = {
+  INFO: ":information_source:",
+  WARN: ":warning:",
+  ERROR: ":red_circle:",
+  CRITICAL: ":rotating_light:",
+};
+
+const TEAMS_COLOR: Record<EventSeverity, string> = {
+  INFO: "2E86C1",
+  WARN: "F39C12",
+  ERROR: "E74C3C",
+  CRITICAL: "8E0000",
+};
+
+const PAGERDUTY_SEVERITY: Record<EventSeverity, string> = {
+  INFO: "info",
+  WARN: "warning",
+  ERROR: "error",
+  CRITICAL: "critical",
+};
+
+function summary(event: EventPayload, held: number, dropped: number): string {
+  const notes = [
+    ...(held > 0 ? [`${held} more since the last notice`] : []),
+    ...(dropped > 0 ? [`${dropped} earlier notice(s) dropped while the channel was backed up`] : []),
+  ];
+  return `${event.severity} ${event.type} on wall ${event.wallId}${notes.length > 0 ? ` (${notes.join("; ")})` : ""}`;
+}
+
+function formatBody(channel: NotificationChannel, event: EventPayload, held: number, dropped: number): object {
+  const details = Object.keys(event.details).length > 0 ? JSON.stringify(event.details) : "";
+  const time = new Date(event.ts).toISOString();
+
+  switch (channel.kind) {
+    case "json":
+      return { ...event, heldSinceLast: held, droppedSinceLast: dropped };
+
+    case "slack":
+      return {
+        text: `${SLACK_EMOJI[event.severity]} *${summary(event, held, dropped)}*\n${time}${details ? `\n\`\`\`${details}\`\`\`` : ""}`,
+      };
+
+    case "teams":
+      return {
+        "@type": "MessageCard",
+        "@context": "https://schema.org/extensions",
+        themeColor: TEAMS_COLOR[event.severity],
+        summary: summary(event, held, dropped),
+        title: summary(event, held, dropped),
+        sections: [{
+          facts: [
+            { name: "Wall", value: event.wallId },
+            { name: "Time", value: time },
+            ...Object.entries(event.details).map(([name, value]) => ({
+              name,
+              value: typeof value === "string" ? value : JSON.stringify(value),
+            })),
+          ],
+        }],
+      };
+
+    case "pagerduty": {
+      // Condition edges share a dedup key so _OFF resolves the incident its _ON opened
+      const edge = conditionEdge(event.type);
+      return {
+        routing_key: channel.routingKey,
+        event_action: edge?.edge === "OFF" ? "resolve" : "trigger",
+        dedup_key: edge ? `${event.wallId}/${edge.condition}` : undefined,
+        payload: {
+          summary: summary(event, held, dropped),
+          source: event.wallId,
+          severity: PAGERDUTY_SEVERITY[event.severity],
+          timestamp: time,
+          component: "vu-watchdog",
+          class: event.type,
+          custom_details: event.details,
+        },
+      };
+    }
+  }
+}
+
+// --- Delivery ---
+
+/** POST with retries on network errors, 429 and 5xx. Resolves with the last error, or null. */
+async function deliver(channel: NotificationChannel, body: object, attempts: number): Promise<string | null> {
+  let error = "";
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      const res = await fetch(channel.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (res.ok) return null;
+      error = `HTTP ${res.status}`;
+      if (res.status !== 429 && res.status < 500) break;   // won't get better by retrying
+    } catch (err: any) {
+      error = err.message;
+    }
+    if (attempt < attempts) {
+      await new Promise((r) => setTimeout(r, Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS)));
+    }
+  }
+  return error;
+}
+
+// One delivery at a time per channel, so a retried _ON can't land after its _OFF.
+// A channel that is down takes minutes per event, so its backlog is capped.
+interface ChannelQueue {
+  pending: { channel: NotificationChannel; event: EventPayload; held: number }[];
+  dropped: number;       // dropped since the last delivery, reported in the next one
+  draining: boolean;
+}
+
+const channelQueues = new Map<string, ChannelQueue>();
+
+function enqueue(channel: NotificationChannel, event: EventPayload, held: number): void {
+  let queue = channelQueues.get(channel.id);
+  if (!queue) {
+    queue = { pending: [], dropped: 0, draining: false };
+    channelQueues.set(channel.id, queue);
+  }
+  queue.pending.push({ channel, event, held });
+  if (queue.pending.length > MAX_PENDING) {
+    const oldest = queue.pending.shift()!;
+    if (queue.dropped === 0) console.error(`[notify] ${channel.id}: ${MAX_PENDING} deliveries pending — dropping the oldest (${oldest.event.type})`);
+    queue.dropped++;
+  }
+  if (!queue.draining) drain(queue);
+}
+
+async function drain(queue: ChannelQueue): Promise<void> {
+  queue.draining = true;
+  while (queue.pending.length > 0) {
+    const { channel, event, held } = queue.pending.shift()!;
+    const dropped = queue.dropped;
+    queue.dropped = 0;
+    const error = await deliver(channel, formatBody(channel, event, held, dropped), MAX_ATTEMPTS);
+    if (error) console.error(`[notify] ${channel.id}: ${event.type} not delivered (${error})`);
+  }
+  queue.draining = false;
+}
+
+/** Fan an event out to every channel whose filters and throttle let it through */
+export function notifyEvent(event: EventPayload): void {
+  for (const channel of getNotificationChannels()) {
+    const held = admit(channel, event);
+    if (held !== null) enqueue(channel, event, held);
+  }
+}
+
+/**
+ * Send a NOTIFICATION_TEST event to one channel (or all), ignoring filters and
+ * throttling. One attempt each, so the caller learns quickly what's broken.
+ */
+export async function sendTestNotification(wallId: string, channelId?: string): Promise<TestResult[]> {
+  const channels = getNotificationChannels().filter((c) => !channelId || c.id === channelId);
+  if (channels.length === 0) {
+    throw new Error(channelId ? `Unknown notification channel: ${channelId}` : "No notification channels configured");
+  }
+
+  const event: EventPayload = {
+    schema: "vu.watchdog.event.v1",
+    ts: Date.now(),
+    wallId,
+    type: "NOTIFICATION_TEST",
+    severity: "INFO",
+    details: { message: "Test notification from the watchdog" },
+  };
+
+  return Promise.all(channels.map(async (channel) => {
+    const error = await deliver(channel, formatBody(channel, event, 0, 0), 1);
+    return error ? { channel: channel.id, ok: false, error } : { channel: channel.id, ok: true };
+  }));
+}
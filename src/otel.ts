@@ -0,0 +1,235 @@
+import * as crypto from "crypto";
+import type { TelemetryPayload, EventPayload, EventSeverity } from "./types";
+import type { CommandTrace } from "./commands";
+import { TELEMETRY_GAUGES } from "./metrics";
+
+// --- OTLP/HTTP configuration ---
+
+// Standard OTel variables where they exist; export is off unless an endpoint is set
+const config = {
+  endpoint: (process.env.OTEL_EXPORTER_OTLP_ENDPOINT || "").replace(/\/+$/, ""),
+  headers: parseKeyValues(process.env.OTEL_EXPORTER_OTLP_HEADERS || ""),
+  serviceName: process.env.OTEL_SERVICE_NAME || "vu-watchdog",
+  resourceAttributes: parseKeyValues(process.env.OTEL_RESOURCE_ATTRIBUTES || ""),
+  intervalMs: Number(process.env.OTEL_EXPORT_INTERVAL_MS) || 10_000,
+  batchSize: Number(process.env.OTEL_EXPORT_BATCH_SIZE) || 512,     // records per request
+  queueSize: Number(process.env.OTEL_EXPORT_QUEUE_SIZE) || 2048,   // per signal; oldest dropped beyond
+  timeoutMs: Number(process.env.OTEL_EXPORTER_OTLP_TIMEOUT) || 10_000,
+};
+
+/** "k1=v1,k2=v2" as used by OTEL_EXPORTER_OTLP_HEADERS and OTEL_RESOURCE_ATTRIBUTES */
+function parseKeyValues(raw: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const pair of raw.split(",")) {
+    const eq = pair.indexOf("=");
+    if (eq <= 0) continue;
+    result[decodeURIComponent(pair.slice(0, eq).trim())] = decodeURIComponent(pair.slice(eq + 1).trim());
+  }
+  return result;
+}
+
+export function isOtelEnabled(): boolean {
+  return config.endpoint !== "";
+}
+
+// --- OTLP JSON encoding ---
+
+type AnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number };
+
+interface KeyValue {
+  key: string;
+  value: AnyValue;
+}
+
+function toAnyValue(value: unknown): AnyValue {
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  if (typeof value === "string") return { stringValue: value };
+  return { stringValue: JSON.stringify(value) ?? "null" };
+}
+
+function attributes(values: Record<string, unknown>): KeyValue[] {
+  return Object.entries(values)
+    .filter(([, v]) => v !== undefined && v !== null)
+    .map(([key, v]) => ({ key, value: toAnyValue(v) }));
+}
+
+function nanos(ms: number): string {
+  return `${BigInt(Math.round(ms)) * 1_000_000n}`;
+}
+
+const SCOPE = { name: "vu-watchdog" };
+
+let resource: { attributes: KeyValue[] } = { attributes: [] };
+
+// OTLP log severity numbers: INFO 9, WARN 13, ERROR 17, FATAL 21
+const SEVERITY_NUMBER: Record<EventSeverity, number> = {
+  INFO: 9,
+  WARN: 13,
+  ERROR: 17,
+  CRITICAL: 21,
+};
+
+const SPAN_KIND_SERVER = 2;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+function encodeMetrics(samples: TelemetryPayload[]): object {
+  const metrics = TELEMETRY_GAUGES.map((def) => ({
+    name: `watchdog.${def.name.replace("_", ".")}`,   // system_cpu_usage_percent → watchdog.system.cpu_usage_percent
+    description: def.help,
+    gauge: {
+      dataPoints: samples.flatMap((t) => {
+        const value = def.value(t);
+        if (value === null || value === undefined) return [];
+        return [{ timeUnixNano: nanos(t.timestamp), asDouble: Number(value) }];
+      }),
+    },
+  })).filter((m) => m.gauge.dataPoints.length > 0);
+
+  return { resourceMetrics: [{ resource, scopeMetrics: [{ scope: SCOPE, metrics }] }] };
+}
+
+function encodeLogs(events: EventPayload[]): object {
+  const logRecords = events.map((e) => ({
+    timeUnixNano: nanos(e.ts),
+    observedTimeUnixNano: nanos(Date.now()),
+    severityNumber: SEVERITY_NUMBER[e.severity] ?? 0,
+    severityText: e.severity,
+    body: { stringValue: e.type },
+    attributes: attributes({ "event.name": e.type, wallId: e.wallId, ...e.details }),
+  }));
+  return { resourceLogs: [{ resource, scopeLogs: [{ scope: SCOPE, logRecords }] }] };
+}
+
+/** One span per command: RECEIVED → final ack, each ack in between as a span event */
+function encodeTraces(traces: CommandTrace[]): object {
+  const spans = traces.map((t) => ({
+    traceId: crypto.randomBytes(16).toString("hex"),
+    spanId: crypto.randomBytes(8).toString("hex"),
+    name: `command ${t.type}`,
+    kind: SPAN_KIND_SERVER,
+    startTimeUnixNano: nanos(t.startTs),
+    endTimeUnixNano: nanos(t.endTs),
+    attributes: attributes({
+      commandId: t.commandId,
+      clientId: t.clientId,
+      commandType: t.type,
+      isLocal: t.isLocal,
+      status: t.status,
+    }),
+    events: t.acks.map((ack) => ({
+      timeUnixNano: nanos(ack.ts),
+      name: ack.status,
+      attributes: attributes({ message: ack.message }),
+    })),
+    // A cancelled command didn't fail; anything else that wasn't applied did
+    status: t.status === "APPLIED"
+      ? { code: STATUS_OK }
+      : t.status === "CANCELLED"
+        ? {}
+        : { code: STATUS_ERROR, message: t.message },
+  }));
+  return { resourceSpans: [{ resource, scopeSpans: [{ scope: SCOPE, spans }] }] };
+}
+
+// --- Batching exporter ---
+
+interface Signal<T> {
+  path: string;
+  queue: T[];
+  dropped: number;
+  encode: (batch: T[]) => object;
+}
+
+const metricsSignal: Signal<TelemetryPayload> = { path: "/v1/metrics", queue: [], dropped: 0, encode: encodeMetrics };
+const logsSignal: Signal<EventPayload> = { path: "/v1/logs", queue: [], dropped: 0, encode: encodeLogs };
+const tracesSignal: Signal<CommandTrace> = { path: "/v1/traces", queue: [], dropped: 0, encode: encodeTraces };
+const signals: Signal<any>[] = [metricsSignal, logsSignal, tracesSignal];
+
+let flushTimer: Timer | null = null;
+let flushing = false;
+
+function push<T>(signal: Signal<T>, item: T): void {
+  if (!flushTimer) return;
+  signal.queue.push(item);
+  if (signal.queue.length > config.queueSize) {
+    signal.dropped += signal.queue.length - config.queueSize;
+    signal.queue.splice(0, signal.queue.length - config.queueSize);
+  }
+  if (signal.queue.length >= config.batchSize) flushOtel();
+}
+
+/** POST one batch; false if it should be retried (network error, 429, 5xx) */
+async function post(signal: Signal<any>, batch: any[]): Promise<boolean> {
+  try {
+    const res = await fetch(config.endpoint + signal.path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...config.headers },
+      body: JSON.stringify(signal.encode(batch)),
+      signal: AbortSignal.timeout(config.timeoutMs),
+    });
+    if (res.ok) return true;
+    const retryable = res.status === 429 || res.status >= 500;
+    console.error(`[otel] ${signal.path} rejected (${res.status})${retryable ? " — will retry" : ", dropping batch"}`);
+    return !retryable;
+  } catch (err: any) {
+    console.error(`[otel] ${signal.path} export failed: ${err.message}`);
+    return false;
+  }
+}
+
+/** Send everything queued, batch by batch; a failed batch goes back to the front */
+export async function flushOtel(): Promise<void> {
+  if (!isOtelEnabled() || flushing) return;
+  flushing = true;
+  try {
+    for (const signal of signals) {
+      if (signal.dropped > 0) {
+        console.error(`[otel] ${signal.path} queue full — dropped ${signal.dropped} oldest record(s)`);
+        signal.dropped = 0;
+      }
+      while (signal.queue.length > 0) {
+        const batch = signal.queue.splice(0, config.batchSize);
+        if (!(await post(signal, batch))) {
+          signal.queue.unshift(...batch);
+          signal.queue.splice(config.queueSize);
+          break;
+        }
+      }
+    }
+  } finally {
+    flushing = false;
+  }
+}
+
+/** Start periodic export to OTEL_EXPORTER_OTLP_ENDPOINT (no-op without one) */
+export function startOtel(wallId: string): void {
+  if (!isOtelEnabled() || flushTimer) return;
+  resource = {
+    attributes: attributes({
+      "service.name": config.serviceName,
+      "service.instance.id": wallId,
+      wallId,
+      ...config.resourceAttributes,
+    }),
+  };
+  flushTimer = setInterval(flushOtel, config.intervalMs);
+  console.log(`[otel] Exporting to ${config.endpoint} every ${config.intervalMs / 1000}s`);
+}
+
+export function exportTelemetry(telemetry: TelemetryPayload): void {
+  push(metricsSignal, telemetry);
+}
+
+export function exportEvent(event: EventPayload): void {
+  push(logsSignal, event);
+}
+
+export function exportCommandTrace(trace: CommandTrace): void {
+  push(tracesSignal, trace);
+}
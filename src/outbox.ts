@@ -0,0 +1,188 @@
+/**
+ * Durable outbound queue for QoS 1 messages (event, ack, health).
+ *
+ * Messages published while the broker is unreachable — or before the first
+ * connect — are persisted to disk and replayed in order on (re)connect with
+ * their original payloads (timestamps included). Retained topics are coalesced
+ * to the latest message. When the cap is hit the oldest messages are dropped
+ * and the overflow handler is told (BUFFER_OVERFLOW event).
+ */
+
+import { Database } from "bun:sqlite";
+import type { MqttClient } from "mqtt";
+import { dataPath } from "./config";
+
+const MAX_MESSAGES = Number(process.env.OUTBOX_MAX_MESSAGES) || 5_000;
+const PUBLISH_TIMEOUT_MS = 10_000;
+const OVERFLOW_REPORT_INTERVAL_MS = 60_000;
+
+interface OutboxMessage {
+  id: number;
+  topic: string;
+  payload: string;
+  retain: boolean;
+}
+
+export type OverflowHandler = (info: { dropped: number; capacity: number }) => void;
+
+let db: Database | null = null;
+let opened = false;
+let memory: OutboxMessage[] = [];   // fallback when the database can't be opened
+let nextMemoryId = 1;
+let draining = false;
+
+let onOverflow: OverflowHandler | null = null;
+let droppedSinceReport = 0;
+let lastOverflowReport = 0;
+let reportingOverflow = false;
+let reportTimer: Timer | null = null;
+
+function ensureOpen(): void {
+  if (opened) return;
+  opened = true;
+  try {
+    db = new Database(dataPath("outbox.db"), { create: true });
+    db.exec("PRAGMA journal_mode = WAL");
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        topic TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        retain INTEGER NOT NULL
+      )
+    `);
+    const count = pendingCount();
+    if (count > 0) console.log(`[outbox] ${count} messages pending from previous run`);
+  } catch (err: any) {
+    console.error("[outbox] Disk queue unavailable, buffering in memory:", err.message);
+    db = null;
+  }
+}
+
+export function setOverflowHandler(handler: OverflowHandler): void {
+  onOverflow = handler;
+}
+
+export function pendingCount(): number {
+  ensureOpen();
+  if (!db) return memory.length;
+  const { n } = db.query("SELECT COUNT(*) AS n FROM outbox").get() as { n: number };
+  return n;
+}
+
+/** Queue a message for later delivery */
+export function enqueue(topic: string, payload: string, retain: boolean): void {
+  ensureOpen();
+
+  if (db) {
+    // Only the latest retained message per topic matters
+    if (retain) db.query("DELETE FROM outbox WHERE topic = ? AND retain = 1").run(topic);
+    db.query("INSERT INTO outbox (topic, payload, retain) VALUES (?, ?, ?)").run(topic, payload, retain ? 1 : 0);
+  } else {
+    if (retain) memory = memory.filter((m) => !(m.retain && m.topic === topic));
+    memory.push({ id: nextMemoryId++, topic, payload, retain });
+  }
+
+  enforceCap();
+}
+
+function enforceCap(): void {
+  const excess = pendingCount() - MAX_MESSAGES;
+  if (excess <= 0) return;
+
+  if (db) {
+    db.query("DELETE FROM outbox WHERE id IN (SELECT id FROM outbox ORDER BY id LIMIT ?)").run(excess);
+  } else {
+    memory.splice(0, excess);
+  }
+
+  droppedSinceReport += excess;
+  reportOverflow();
+}
+
+/** Tell the handler about dropped messages — at most once a minute, never re-entrantly */
+function reportOverflow(): void {
+  if (!onOverflow || reportingOverflow || droppedSinceReport === 0) return;
+  const wait = lastOverflowReport + OVERFLOW_REPORT_INTERVAL_MS - Date.now();
+  if (wait > 0) {
+    // Throttled — report the accumulated count when the interval is up
+    reportTimer ??= setTimeout(() => {
+      reportTimer = null;
+      reportOverflow();
+    }, wait);
+    return;
+  }
+
+  reportingOverflow = true;
+  const dropped = droppedSinceReport;
+  droppedSinceReport = 0;
+  lastOverflowReport = Date.now();
+  try {
+    onOverflow({ dropped, capacity: MAX_MESSAGES });
+  } finally {
+    reportingOverflow = false;
+  }
+}
+
+function peek(): OutboxMessage | null {
+  if (!db) return memory[0] ?? null;
+  const row = db.query("SELECT id, topic, payload, retain FROM outbox ORDER BY id LIMIT 1").get() as
+    { id: number; topic: string; payload: string; retain: number } | null;
+  return row ? { ...row, retain: row.retain === 1 } : null;
+}
+
+function remove(id: number): void {
+  if (db) {
+    db.query("DELETE FROM outbox WHERE id = ?").run(id);
+  } else {
+    memory = memory.filter((m) => m.id !== id);
+  }
+}
+
+function publishWithTimeout(client: MqttClient, msg: OutboxMessage): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("publish timeout")), PUBLISH_TIMEOUT_MS);
+    client.publish(msg.topic, msg.payload, { qos: 1, retain: msg.retain }, (err) => {
+      clearTimeout(timer);
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+}
+
+/**
+ * Replay queued messages in order. Stops (keeping the rest) if the client drops.
+ * `onPublished` is told about each message the broker accepted.
+ */
+export async function drain(
+  client: MqttClient,
+  onPublished?: (topic: string, payload: string, retain: boolean) => void,
+): Promise<void> {
+  ensureOpen();
+  if (draining) return;
+  draining = true;
+
+  let sent = 0;
+  try {
+    while (client.connected) {
+      const msg = peek();
+      if (!msg) break;
+      await publishWithTimeout(client, msg);
+      remove(msg.id);
+      onPublished?.(msg.topic, msg.payload, msg.retain);
+      sent++;
+    }
+  } catch (err: any) {
+    console.error("[outbox] Replay interrupted:", err.message);
+  } finally {
+    draining = false;
+  }
+
+  if (sent > 0) console.log(`[outbox] Replayed ${sent} buffered messages`);
+  reportOverflow();
+}
+
+/** True while messages must go through the queue to keep ordering */
+export function isBacklogged(): boolean {
+  return draining || pendingCount() > 0;
+}
@@ -0,0 +1,227 @@
+import type { Subprocess } from "bun";
+import type { HelperMetrics } from "./types";
+
+// --- Persistent PowerShell helper ---
+//
+// One long-lived powershell.exe runs every metrics query instead of a fresh
+// `powershell -NoProfile` per poll (each of which costs hundreds of ms of CPU).
+// Protocol: one JSON object per line on stdin, {id, script}; one per line back
+// on stdout, {id, ok, output | error, cpuMs, memBytes}. Queries run one at a
+// time. A query that overruns its timeout gets the helper killed and respawned,
+// since there's no way to interrupt a running pipeline from outside.
+//
+// Scripts must use Write-Output (not Write-Host, which would corrupt the protocol)
+// and `return` rather than `exit`, which would end the helper.
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const RESPAWN_DELAY_MS = 1_000;
+const LATENCY_WINDOW = 50;           // queries averaged for avgQueryMs
+
+const HELPER_SCRIPT = `
+[Console]::OutputEncoding = [System.Text.Encoding]::UTF8
+$self = [System.Diagnostics.Process]::GetCurrentProcess()
+while ($true) {
+  $line = [Console]::In.ReadLine()
+  if ($line -eq $null) { break }
+  if (-not $line.Trim()) { continue }
+  $req = $line | ConvertFrom-Json
+  $res = @{ id = $req.id }
+  try {
+    $sb = [ScriptBlock]::Create($req.script)
+    $res.output = (@(& $sb) | ForEach-Object { [string]$_ }) -join "\`n"
+    $res.ok = $true
+  } catch {
+    $res.ok = $false
+    $res.error = $_.Exception.Message
+  }
+  $self.Refresh()
+  $res.cpuMs = $self.TotalProcessorTime.TotalMilliseconds
+  $res.memBytes = $self.WorkingSet64
+  [Console]::Out.WriteLine(($res | ConvertTo-Json -Compress))
+  [Console]::Out.Flush()
+}
+`;
+
+interface Query {
+  id: number;
+  script: string;
+  timeoutMs: number;
+  resolve: (output: string) => void;
+  reject: (err: Error) => void;
+}
+
+interface HelperResponse {
+  id: number;
+  ok: boolean;
+  output?: string;
+  error?: string;
+  cpuMs: number;
+  memBytes: number;
+}
+
+let helper: Subprocess<"pipe", "pipe", "ignore"> | null = null;
+let lastSpawnAt = 0;
+let nextId = 1;
+const queue: Query[] = [];
+let inFlight: { query: Query; sentAt: number; timer: Timer } | null = null;
+
+// Counters for the self-metrics
+let restarts = 0;
+let queries = 0;
+let timeouts = 0;
+let failures = 0;
+const latencies: number[] = [];
+let helperCpuMs = 0;                 // cumulative, as last reported by the helper
+let helperMemBytes: number | null = null;
+let cpuSample: { ts: number; cpuMs: number } | null = null;
+
+function spawnHelper(): void {
+  // PowerShell 5.1 takes the script as base64 UTF-16LE, leaving stdin free for queries
+  const encoded = Buffer.from(HELPER_SCRIPT, "utf16le").toString("base64");
+  const proc = Bun.spawn(["powershell", "-NoProfile", "-NonInteractive", "-EncodedCommand", encoded], {
+    stdio: ["pipe", "pipe", "ignore"],
+  });
+  helper = proc;
+  lastSpawnAt = Date.now();
+  helperCpuMs = 0;
+  cpuSample = null;
+  console.log(`[powershell] Helper started (PID ${proc.pid})`);
+
+  readResponses(proc);
+  proc.exited.then((code) => {
+    if (helper !== proc) return;          // already replaced (timeout kill)
+    helper = null;
+    restarts++;
+    console.error(`[powershell] Helper exited (code ${code}) — respawning on next query`);
+    failInFlight(new Error(`PowerShell helper exited (code ${code})`));
+  });
+}
+
+async function readResponses(proc: Subprocess<"pipe", "pipe", "ignore">): Promise<void> {
+  const reader = proc.stdout.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let newlineIdx: number;
+      while ((newlineIdx = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newlineIdx).trim();
+        buffer = buffer.slice(newlineIdx + 1);
+        if (line && helper === proc) handleResponse(line);
+      }
+    }
+  } catch {}
+}
+
+function handleResponse(line: string): void {
+  let res: HelperResponse;
+  try {
+    res = JSON.parse(line);
+  } catch {
+    return;                               // stray output from a script (Write-Host etc.)
+  }
+  if (!inFlight || res.id !== inFlight.query.id) return;
+
+  const { query, sentAt, timer } = inFlight;
+  clearTimeout(timer);
+  inFlight = null;
+
+  latencies.push(Date.now() - sentAt);
+  if (latencies.length > LATENCY_WINDOW) latencies.shift();
+  helperCpuMs = res.cpuMs;
+  helperMemBytes = res.memBytes;
+
+  if (res.ok) {
+    query.resolve(res.output ?? "");
+  } else {
+    failures++;
+    query.reject(new Error(res.error || "PowerShell query failed"));
+  }
+  pump();
+}
+
+function failInFlight(err: Error): void {
+  if (!inFlight) return;
+  clearTimeout(inFlight.timer);
+  failures++;
+  inFlight.query.reject(err);
+  inFlight = null;
+  pump();
+}
+
+/** Send the next queued query, (re)spawning the helper if needed */
+function pump(): void {
+  if (inFlight || queue.length === 0) return;
+
+  if (!helper) {
+    // Don't spin on a helper that dies straight away
+    const wait = lastSpawnAt + RESPAWN_DELAY_MS - Date.now();
+    if (wait > 0) {
+      setTimeout(pump, wait);
+      return;
+    }
+    try {
+      spawnHelper();
+    } catch (err: any) {
+      lastSpawnAt = Date.now();
+      for (const query of queue.splice(0)) query.reject(new Error(`PowerShell unavailable: ${err.message}`));
+      return;
+    }
+  }
+
+  const query = queue.shift()!;
+  const proc = helper!;
+  const timer = setTimeout(() => {
+    timeouts++;
+    console.error(`[powershell] Query timed out after ${query.timeoutMs}ms — restarting helper`);
+    helper = null;
+    restarts++;
+    proc.kill();
+    inFlight = null;
+    query.reject(new Error(`PowerShell query timed out after ${query.timeoutMs}ms`));
+    pump();
+  }, query.timeoutMs);
+
+  inFlight = { query, sentAt: Date.now(), timer };
+  queries++;
+  try {
+    proc.stdin.write(JSON.stringify({ id: query.id, script: query.script }) + "\n");
+    proc.stdin.flush();
+  } catch (err: any) {
+    failInFlight(new Error(`PowerShell helper unavailable: ${err.message}`));
+  }
+}
+
+/** Run a script in the shared helper and resolve with its output lines joined by \n */
+export function runPowerShell(script: string, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<string> {
+  return new Promise((resolve, reject) => {
+    queue.push({ id: nextId++, script, timeoutMs, resolve, reject });
+    pump();
+  });
+}
+
+/** Helper health and cost since the last call (cpuPercent is of the whole machine) */
+export function collectHelperMetrics(cores: number): HelperMetrics {
+  const now = Date.now();
+  let cpuPercent = 0;
+  if (cpuSample && now > cpuSample.ts && helperCpuMs >= cpuSample.cpuMs) {
+    cpuPercent = Math.round(((helperCpuMs - cpuSample.cpuMs) / (now - cpuSample.ts) / cores) * 1000) / 10;
+  }
+  cpuSample = { ts: now, cpuMs: helperCpuMs };
+
+  return {
+    running: helper !== null,
+    pid: helper?.pid ?? null,
+    restarts,
+    queries,
+    timeouts,
+    failures,
+    queued: queue.length + (inFlight ? 1 : 0),
+    avgQueryMs: latencies.length > 0 ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length) : null,
+    cpuPercent,
+    memoryMB: helperMemBytes !== null ? Math.round(helperMemBytes / (1024 * 1024)) : null,
+  };
+}
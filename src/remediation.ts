@@ -0,0 +1,172 @@
+import type { ConditionState } from "./health";
+import type { CommandProcessor } from "./commands";
+import type { LeaseManager } from "./lease";
+import type { WatchdogEventEmitter } from "./events";
+import { getRules, type RemediationPolicy } from "./rules";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// --- Per-condition remediation state ---
+
+interface RemediationState {
+  attempts: number[];         // attempt timestamps within the last hour
+  consecutive: number;        // attempts during the current episode
+  nextAttemptAt: number;      // backoff gate
+  inFlight: boolean;
+  applied: boolean;           // the latest attempt this episode was APPLIED
+  gaveUp: boolean;
+  deferredByLease: boolean;
+}
+
+function newState(): RemediationState {
+  return { attempts: [], consecutive: 0, nextAttemptAt: 0, inFlight: false, applied: false, gaveUp: false, deferredByLease: false };
+}
+
+/**
+ * Maps active conditions to registered commands (policies come from rules.ts).
+ * Never acts while a lease is held — a human operator is in control.
+ */
+export class RemediationEngine {
+  private commandProcessor: CommandProcessor;
+  private leaseManager: LeaseManager;
+  private eventEmitter: WatchdogEventEmitter;
+  private states = new Map<string, RemediationState>(); // conditionId → state
+
+  constructor(commandProcessor: CommandProcessor, leaseManager: LeaseManager, eventEmitter: WatchdogEventEmitter) {
+    this.commandProcessor = commandProcessor;
+    this.leaseManager = leaseManager;
+    this.eventEmitter = eventEmitter;
+  }
+
+  /** Call every loop tick with the latest condition states */
+  update(conditions: ConditionState[]): void {
+    const now = Date.now();
+    const byId = new Map(conditions.map((c) => [c.id, c]));
+    const policies = getRules().remediation;
+
+    // Forget state for policies removed by a rules reload
+    const conditionIds = new Set(policies.map((p) => p.condition));
+    for (const id of this.states.keys()) {
+      if (!conditionIds.has(id)) this.states.delete(id);
+    }
+
+    for (const policy of policies) {
+      const condition = byId.get(policy.condition);
+      let state = this.states.get(policy.condition);
+      if (!state) {
+        state = newState();
+        this.states.set(policy.condition, state);
+      }
+
+      if (!condition?.active) {
+        this.resolve(policy, state);
+        continue;
+      }
+
+      this.tryRemediate(policy, condition, state, now);
+    }
+  }
+
+  /** Current remediation state for dashboards */
+  getState(): Record<string, { attemptsLastHour: number; nextAttemptAt: number; inFlight: boolean; gaveUp: boolean }> {
+    const now = Date.now();
+    const out: Record<string, any> = {};
+    for (const [id, state] of this.states) {
+      out[id] = {
+        attemptsLastHour: state.attempts.filter((ts) => now - ts < HOUR_MS).length,
+        nextAttemptAt: state.nextAttemptAt,
+        inFlight: state.inFlight,
+        gaveUp: state.gaveUp,
+      };
+    }
+    return out;
+  }
+
+  private tryRemediate(policy: RemediationPolicy, condition: ConditionState, state: RemediationState, now: number): void {
+    if (state.inFlight) return;
+
+    const activeFor = now - (condition.activeSince ?? now);
+    if (activeFor < policy.afterMs) return;
+
+    // Don't fight a human operator
+    const leaseOwner = this.leaseManager.getOwner();
+    if (leaseOwner) {
+      if (!state.deferredByLease) {
+        state.deferredByLease = true;
+        this.eventEmitter.emitLifecycle("REMEDIATION_DEFERRED", "INFO", {
+          condition: policy.condition,
+          action: policy.action,
+          leaseOwner,
+        });
+      }
+      return;
+    }
+    state.deferredByLease = false;
+
+    if (now < state.nextAttemptAt) return;
+
+    // Circuit breaker — reopens once old attempts age out of the hour window
+    state.attempts = state.attempts.filter((ts) => now - ts < HOUR_MS);
+    if (state.attempts.length >= policy.maxAttemptsPerHour) {
+      if (!state.gaveUp) {
+        state.gaveUp = true;
+        this.eventEmitter.emitLifecycle("REMEDIATION_GAVE_UP", "CRITICAL", {
+          condition: policy.condition,
+          action: policy.action,
+          attemptsLastHour: state.attempts.length,
+        });
+      }
+      return;
+    }
+    state.gaveUp = false;
+
+    state.attempts.push(now);
+    state.consecutive++;
+    state.inFlight = true;
+    state.nextAttemptAt = now + Math.min(policy.backoffMs * 2 ** (state.consecutive - 1), policy.maxBackoffMs);
+
+    this.eventEmitter.emitLifecycle("REMEDIATION_ATTEMPTED", "WARN", {
+      condition: policy.condition,
+      action: policy.action,
+      attempt: state.consecutive,
+      activeForMs: activeFor,
+      nextAttemptAt: state.nextAttemptAt,
+    });
+
+    this.commandProcessor.handleInternal(policy.action, policy.args, "remediation")
+      .then((ack) => {
+        state.applied = ack.status === "APPLIED";
+        if (!state.applied) {
+          console.log(`[remediation] ${policy.action} for ${policy.condition} ${ack.status}: ${ack.message}`);
+        }
+      })
+      .catch((err: any) => {
+        state.applied = false;
+        console.error(`[remediation] ${policy.action} for ${policy.condition} failed:`, err.message);
+      })
+      .finally(() => {
+        state.inFlight = false;
+      });
+  }
+
+  /**
+   * Condition cleared — report success if our last attempt was applied and we were
+   * still in charge (not given up, not deferred to an operator), then reset the episode
+   */
+  private resolve(policy: RemediationPolicy, state: RemediationState): void {
+    if (state.inFlight) return;
+    if (state.applied && !state.gaveUp && !state.deferredByLease) {
+      this.eventEmitter.emitLifecycle("REMEDIATION_SUCCEEDED", "INFO", {
+        condition: policy.condition,
+        action: policy.action,
+        attempts: state.consecutive,
+      });
+    }
+
+    state.consecutive = 0;
+    state.applied = false;
+    state.nextAttemptAt = 0;
+    state.gaveUp = false;
+    state.deferredByLease = false;
+  }
+}
@@ -0,0 +1,600 @@
+/**
+ * Declarative condition rules for the health engine.
+ *
+ * Rules are loaded from watchdog.rules.json next to app.config.json and merged
+ * over the built-in defaults below (matched by id), so a wall only needs to list
+ * the conditions it wants to tune. The file is polled and hot-reloaded; an
+ * invalid file is rejected as a whole and the previous rules stay in effect.
+ *
+ * Expressions are evaluated against TelemetryPayload, e.g.
+ *   "system.diskPercent >= 97"
+ *   "app.vuosProcessRunning && !app.vuosProcess.responding"
+ *   "(network.latencyMs ?? 0) > 250"
+ */
+
+import * as fs from "fs";
+import { RULES_PATH, WATCHED_VOLUMES } from "./config";
+import type { TelemetryPayload, ConditionLevel, EventSeverity, CommandType } from "./types";
+import type { ConditionDef } from "./health";
+import type { ArgError } from "./commands";
+import { COLLECTOR_NAMES } from "./collectors/status";
+
+// --- Rule file schema ---
+
+export interface RuleSpec {
+  id: string;
+  enabled?: boolean;
+  level?: ConditionLevel;
+  severity?: EventSeverity;
+  when?: string;             // set expression
+  clearWhen?: string;        // clear expression (hysteresis), defaults to !when
+  debounceMs?: number;       // how long `when` must hold before the condition activates
+  clearDebounceMs?: number;  // how long the clear side must hold before the condition clears
+  flapThreshold?: number;    // on/off transitions within flapWindowMs that mark FLAPPING (0 = off)
+  flapWindowMs?: number;
+}
+
+/** Automatic remediation: dispatch `action` once `condition` has been active for `afterMs` */
+export interface RemediationPolicy {
+  condition: string;
+  action: CommandType;
+  args: Record<string, any>;
+  afterMs: number;
+  backoffMs: number;           // delay before the next attempt, doubled per consecutive attempt
+  maxBackoffMs: number;
+  maxAttemptsPerHour: number;  // circuit breaker — give up once exceeded
+}
+
+export type RemediationSpec = Partial<RemediationPolicy> & { condition: string; enabled?: boolean };
+
+export interface RulesFile {
+  warmupSec?: number;
+  conditions?: RuleSpec[];
+  remediation?: RemediationSpec[];
+}
+
+export interface RulesSnapshot {
+  source: "builtin" | "file";
+  loadedAt: number;
+  warmupSec: number;
+  conditions: ConditionDef[];
+  remediation: RemediationPolicy[];
+}
+
+export type RulesChangeCallback = (result: { ok: boolean; snapshot: RulesSnapshot; errors: string[] }) => void;
+
+// --- Built-in defaults ---
+
+const DEFAULT_WARMUP_SEC = 5;
+const DEFAULT_FLAP_THRESHOLD = 6;           // 3 full on/off cycles...
+const DEFAULT_FLAP_WINDOW_MS = 10 * 60_000; // ...within 10 minutes
+
+const DEFAULT_RULES: RuleSpec[] = [
+  // CRITICAL
+  { id: "VUOS_DOWN", level: "CRITICAL", severity: "CRITICAL", debounceMs: 10_000, clearDebounceMs: 5_000, when: "!app.vuosProcessRunning" },
+  { id: "SERVER_DOWN", level: "CRITICAL", severity: "CRITICAL", debounceMs: 10_000, clearDebounceMs: 5_000, when: "!app.serverProcessRunning" },
+  {
+    id: "DISK_FULL", level: "CRITICAL", severity: "CRITICAL", debounceMs: 0, clearDebounceMs: 0,
+    when: "system.diskPercent >= 97", clearWhen: "system.diskPercent < 96",
+  },
+  { id: "THERMAL_THROTTLING", level: "CRITICAL", severity: "CRITICAL", debounceMs: 0, clearDebounceMs: 30_000, when: "system.thermalThrottling" },
+  {
+    id: "LOCK_STALE", level: "CRITICAL", severity: "ERROR", debounceMs: 0, clearDebounceMs: 0,
+    when: "app.serverLock != null && !app.serverLock.healthy && (app.serverLock.heartbeatAgeMs ?? 0) > 15000",
+  },
+  {
+    id: "VUOS_NOT_RESPONDING", level: "CRITICAL", severity: "WARN", debounceMs: 10_000, clearDebounceMs: 10_000,
+    when: "app.vuosProcessRunning && app.vuosProcess != null && !app.vuosProcess.responding",
+  },
+
+  // DEGRADED
+  { id: "INTERNET_OFFLINE", level: "DEGRADED", severity: "WARN", debounceMs: 30_000, clearDebounceMs: 10_000, when: "!network.internetOnline" },
+  {
+    id: "LATENCY_HIGH", level: "DEGRADED", severity: "WARN", debounceMs: 60_000, clearDebounceMs: 30_000,
+    when: "(network.latencyMs ?? 0) > 250", clearWhen: "(network.latencyMs ?? 0) < 200",
+  },
+  {
+    id: "DISK_HIGH", level: "DEGRADED", severity: "WARN", debounceMs: 0, clearDebounceMs: 0,
+    when: "system.diskPercent >= 90 && system.diskPercent < 97", clearWhen: "system.diskPercent < 89 || system.diskPercent >= 97",
+  },
+  // Not on a machine without a GPU, where the collector reports itself not applicable
+  {
+    id: "GPU_PROBE_FAILED", level: "DEGRADED", severity: "ERROR", debounceMs: 60_000, clearDebounceMs: 0,
+    when: "system.gpuName == null && collectors.gpu.applicable",
+  },
+  {
+    id: "ERRORS_HIGH", level: "DEGRADED", severity: "WARN", debounceMs: 0, clearDebounceMs: 60_000,
+    when: "app.logs.recentErrorCount >= 5", clearWhen: "app.logs.recentErrorCount < 3",
+  },
+
+  // Per watched volume (config WATCHED_VOLUMES), so a full install drive can't hide behind an empty media drive
+  ...Object.keys(WATCHED_VOLUMES).flatMap((name): RuleSpec[] => {
+    const percent = `system.watchedVolumes.${name}.percent`;
+    return [
+      {
+        id: `DISK_FULL:${name}`, level: "CRITICAL", severity: "CRITICAL", debounceMs: 0, clearDebounceMs: 0,
+        when: `${percent} >= 97`, clearWhen: `${percent} < 96`,
+      },
+      {
+        id: `DISK_HIGH:${name}`, level: "DEGRADED", severity: "WARN", debounceMs: 0, clearDebounceMs: 0,
+        when: `${percent} >= 90 && ${percent} < 97`, clearWhen: `${percent} < 89 || ${percent} >= 97`,
+      },
+    ];
+  }),
+
+  // One per background collector: its cached values are being reported but no longer refreshed
+  ...COLLECTOR_NAMES.map((name): RuleSpec => ({
+    id: `COLLECTOR_STALE:${name}`, level: "DEGRADED", severity: "WARN", debounceMs: 0, clearDebounceMs: 0,
+    when: `collectors.${name}.stale`,
+  })),
+];
+
+const DEFAULT_REMEDIATION: RemediationPolicy[] = [
+  { condition: "VUOS_DOWN", action: "START_VUOS", args: {}, afterMs: 30_000, backoffMs: 60_000, maxBackoffMs: 15 * 60_000, maxAttemptsPerHour: 5 },
+  { condition: "VUOS_NOT_RESPONDING", action: "RESTART_VUOS", args: {}, afterMs: 60_000, backoffMs: 120_000, maxBackoffMs: 30 * 60_000, maxAttemptsPerHour: 3 },
+];
+
+// --- Expression compiler ---
+//
+// Grammar (lowest → highest precedence), as in JavaScript:
+//   nullish := or ("??" or)*
+//   or      := and ("||" and)*
+//   and     := equality ("&&" equality)*
+//   equality:= compare (("==" | "!=") compare)*
+//   compare := unary (("<" | "<=" | ">" | ">=") unary)*
+//   unary   := ("!" | "-") unary | primary
+//   primary := number | string | true | false | null | path | "(" nullish ")"
+//
+// So "a ?? 0 > 5" reads as "a ?? (0 > 5)"; write "(a ?? 0) > 5". Like JavaScript,
+// `??` can't be mixed with && or || without parentheses.
+// Ordering comparisons against null/undefined are always false.
+
+export type Expression = (t: TelemetryPayload) => any;
+
+type Token =
+  | { kind: "num"; value: number }
+  | { kind: "str"; value: string }
+  | { kind: "ident"; value: string }
+  | { kind: "op"; value: string };
+
+const OPERATORS = ["&&", "||", "==", "!=", "<=", ">=", "??", "<", ">", "!", "-", "(", ")"];
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(src[i + 1] ?? ""))) {
+      const match = src.slice(i).match(/^(\d+(_\d+)*)?(\.\d+)?/)!;
+      tokens.push({ kind: "num", value: parseFloat(match[0].replace(/_/g, "")) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      const end = src.indexOf(ch, i + 1);
+      if (end < 0) throw new Error(`Unterminated string at ${i}`);
+      tokens.push({ kind: "str", value: src.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = src.slice(i).match(/^[A-Za-z_$][\w$]*(\.[\w$]+)*/)!;
+      tokens.push({ kind: "ident", value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => src.startsWith(o, i));
+    if (!op) throw new Error(`Unexpected '${ch}' at ${i}`);
+    tokens.push({ kind: "op", value: op });
+    i += op.length;
+  }
+
+  return tokens;
+}
+
+function resolvePath(t: TelemetryPayload, segments: string[]): any {
+  let value: any = t;
+  for (const seg of segments) {
+    if (value === null || value === undefined) return undefined;
+    value = value[seg];
+  }
+  return value;
+}
+
+function isNil(v: any): boolean {
+  return v === null || v === undefined;
+}
+
+export function compileExpression(src: string): Expression {
+  const tokens = tokenize(src);
+  let pos = 0;
+
+  const peek = (): Token | undefined => tokens[pos];
+  const isOp = (value: string) => {
+    const tok = peek();
+    return tok?.kind === "op" && tok.value === value;
+  };
+  const expectOp = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected '${value}'`);
+    pos++;
+  };
+
+  function binary(next: () => Expression, ops: string[], apply: (op: string, a: Expression, b: Expression) => Expression): Expression {
+    let left = next();
+    while (true) {
+      const tok = peek();
+      if (tok?.kind !== "op" || !ops.includes(tok.value)) return left;
+      pos++;
+      left = apply(tok.value, left, next());
+    }
+  }
+
+  /** The tokens from..to include && or || outside parentheses */
+  function hasLogicalOp(from: number, to: number): boolean {
+    let depth = 0;
+    for (let i = from; i < to; i++) {
+      const tok = tokens[i];
+      if (tok.kind !== "op") continue;
+      if (tok.value === "(") depth++;
+      else if (tok.value === ")") depth--;
+      else if (depth === 0 && (tok.value === "&&" || tok.value === "||")) return true;
+    }
+    return false;
+  }
+
+  function parseNullish(): Expression {
+    const operand = () => {
+      const start = pos;
+      const expr = parseOr();
+      return { expr, logical: hasLogicalOp(start, pos) };
+    };
+    const first = operand();
+    let left = first.expr;
+    let mixed = first.logical;
+    let chained = false;
+    while (isOp("??")) {
+      pos++;
+      chained = true;
+      const next = operand();
+      mixed ||= next.logical;
+      const a = left;
+      const b = next.expr;
+      left = (t) => a(t) ?? b(t);
+    }
+    if (chained && mixed) throw new Error("Use parentheses to mix ?? with && or ||");
+    return left;
+  }
+
+  function parseOr(): Expression {
+    return binary(parseAnd, ["||"], (_op, a, b) => (t: TelemetryPayload) => a(t) || b(t));
+  }
+
+  function parseAnd(): Expression {
+    return binary(parseEquality, ["&&"], (_op, a, b) => (t: TelemetryPayload) => a(t) && b(t));
+  }
+
+  function parseEquality(): Expression {
+    return binary(parseCompare, ["==", "!="], (op, a, b) => (t: TelemetryPayload) => {
+      const l = a(t);
+      const r = b(t);
+      // Treat null and undefined (missing field) as equal
+      const eq = isNil(l) && isNil(r) ? true : l === r;
+      return op === "==" ? eq : !eq;
+    });
+  }
+
+  function parseCompare(): Expression {
+    return binary(parseUnary, ["<", "<=", ">", ">="], (op, a, b) => (t: TelemetryPayload) => {
+      const l = a(t);
+      const r = b(t);
+      if (isNil(l) || isNil(r)) return false;
+      switch (op) {
+        case "<": return l < r;
+        case "<=": return l <= r;
+        case ">": return l > r;
+        default: return l >= r;
+      }
+    });
+  }
+
+  function parseUnary(): Expression {
+    if (isOp("!")) {
+      pos++;
+      const inner = parseUnary();
+      return (t) => !inner(t);
+    }
+    if (isOp("-")) {
+      pos++;
+      const inner = parseUnary();
+      return (t) => -inner(t);
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): Expression {
+    const tok = peek();
+    if (!tok) throw new Error("Unexpected end of expression");
+    pos++;
+
+    if (tok.kind === "num" || tok.kind === "str") {
+      const value = tok.value;
+      return () => value;
+    }
+
+    if (tok.kind === "ident") {
+      if (tok.value === "true") return () => true;
+      if (tok.value === "false") return () => false;
+      if (tok.value === "null") return () => null;
+      const segments = tok.value.split(".");
+      return (t) => resolvePath(t, segments);
+    }
+
+    if (tok.value === "(") {
+      const inner = parseNullish();
+      expectOp(")");
+      return inner;
+    }
+
+    throw new Error(`Unexpected '${tok.value}'`);
+  }
+
+  const expr = parseNullish();
+  if (pos < tokens.length) {
+    const tok = tokens[pos];
+    throw new Error(`Unexpected '${tok.value}'`);
+  }
+  return expr;
+}
+
+// --- Validation + compilation ---
+
+const LEVELS: ConditionLevel[] = ["DEGRADED", "CRITICAL"];
+const SEVERITIES: EventSeverity[] = ["INFO", "WARN", "ERROR", "CRITICAL"];
+const ID_PATTERN = /^[A-Z][A-Z0-9_]*(:[\w.-]+)?$/;
+
+function compileRule(spec: RuleSpec, errors: string[]): ConditionDef | null {
+  const where = `condition ${spec.id}`;
+  const before = errors.length;
+
+  if (!spec.level || !LEVELS.includes(spec.level)) {
+    errors.push(`${where}: level must be one of ${LEVELS.join(", ")}`);
+  }
+  if (!spec.severity || !SEVERITIES.includes(spec.severity)) {
+    errors.push(`${where}: severity must be one of ${SEVERITIES.join(", ")}`);
+  }
+  for (const key of ["debounceMs", "clearDebounceMs", "flapThreshold", "flapWindowMs"] as const) {
+    const value = spec[key];
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      errors.push(`${where}: ${key} must be a non-negative number`);
+    }
+  }
+
+  let evaluate: Expression | null = null;
+  let clear: Expression | undefined;
+
+  if (typeof spec.when !== "string" || !spec.when.trim()) {
+    errors.push(`${where}: missing 'when' expression`);
+  } else {
+    try {
+      evaluate = compileExpression(spec.when);
+    } catch (e: any) {
+      errors.push(`${where}: invalid 'when' expression: ${e.message}`);
+    }
+  }
+
+  if (spec.clearWhen !== undefined) {
+    if (typeof spec.clearWhen !== "string" || !spec.clearWhen.trim()) {
+      errors.push(`${where}: 'clearWhen' must be a non-empty expression`);
+    } else {
+      try {
+        clear = compileExpression(spec.clearWhen);
+      } catch (e: any) {
+        errors.push(`${where}: invalid 'clearWhen' expression: ${e.message}`);
+      }
+    }
+  }
+
+  if (errors.length > before || !evaluate) return null;
+
+  const when = evaluate;
+  const clearWhen = clear;
+  return {
+    id: spec.id,
+    level: spec.level!,
+    severity: spec.severity!,
+    debounceMs: spec.debounceMs!,
+    clearDebounceMs: spec.clearDebounceMs!,
+    flapThreshold: spec.flapThreshold!,
+    flapWindowMs: spec.flapWindowMs!,
+    evaluate: (t) => Boolean(when(t)),
+    clear: clearWhen ? (t) => Boolean(clearWhen(t)) : undefined,
+  };
+}
+
+// Checks a remediation action and its args against the registered commands.
+// Unset until the command processor is up; the built-in policies need no check.
+let validateAction: ((type: CommandType, args: Record<string, any>) => ArgError[]) | null = null;
+
+/** Reject remediation policies whose action isn't a registered command the watchdog can run (or whose args it wouldn't accept) */
+export function setActionValidator(validate: (type: CommandType, args: Record<string, any>) => ArgError[]): void {
+  validateAction = validate;
+}
+
+function buildRemediation(specs: unknown, conditionIds: Set<string>, errors: string[]): RemediationPolicy[] {
+  const merged = new Map<string, RemediationSpec>();
+  for (const policy of DEFAULT_REMEDIATION) merged.set(policy.condition, { ...policy });
+
+  if (specs !== undefined && !Array.isArray(specs)) {
+    errors.push("remediation must be an array");
+  }
+
+  const fromFile = new Set<string>();
+  for (const [i, spec] of (Array.isArray(specs) ? specs as RemediationSpec[] : []).entries()) {
+    if (!spec || typeof spec !== "object" || typeof spec.condition !== "string") {
+      errors.push(`remediation[${i}]: missing condition`);
+      continue;
+    }
+    fromFile.add(spec.condition);
+    merged.set(spec.condition, { ...merged.get(spec.condition), ...spec });
+  }
+
+  const policies: RemediationPolicy[] = [];
+  for (const spec of merged.values()) {
+    if (spec.enabled === false) continue;
+    const where = `remediation ${spec.condition}`;
+    const before = errors.length;
+
+    if (!conditionIds.has(spec.condition)) {
+      // Built-in policies quietly follow their condition when it is disabled
+      if (fromFile.has(spec.condition)) errors.push(`${where}: unknown or disabled condition`);
+      continue;
+    }
+    if (typeof spec.action !== "string" || !spec.action) {
+      errors.push(`${where}: missing action`);
+    }
+    if (spec.args !== undefined && (typeof spec.args !== "object" || spec.args === null)) {
+      errors.push(`${where}: args must be an object`);
+    } else if (spec.action && validateAction) {
+      for (const e of validateAction(spec.action, spec.args ?? {})) {
+        errors.push(e.field === "type" ? `${where}: ${e.message}` : `${where}: args.${e.field} ${e.message}`);
+      }
+    }
+    for (const key of ["afterMs", "backoffMs", "maxBackoffMs", "maxAttemptsPerHour"] as const) {
+      const value = spec[key];
+      if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        errors.push(`${where}: ${key} must be a non-negative number`);
+      }
+    }
+    if (errors.length > before) continue;
+
+    policies.push({
+      condition: spec.condition,
+      action: spec.action!,
+      args: spec.args ?? {},
+      afterMs: spec.afterMs!,
+      backoffMs: spec.backoffMs!,
+      maxBackoffMs: spec.maxBackoffMs!,
+      maxAttemptsPerHour: spec.maxAttemptsPerHour!,
+    });
+  }
+
+  return policies;
+}
+
+/** Merge a rules file over the built-in defaults and compile the result */
+export function buildRules(file: RulesFile): { snapshot: RulesSnapshot; errors: string[] } {
+  const errors: string[] = [];
+
+  if (file.warmupSec !== undefined && (typeof file.warmupSec !== "number" || file.warmupSec < 0)) {
+    errors.push("warmupSec must be a non-negative number");
+  }
+  if (file.conditions !== undefined && !Array.isArray(file.conditions)) {
+    errors.push("conditions must be an array");
+  }
+
+  const ruleDefaults: Partial<RuleSpec> = {
+    severity: "WARN",
+    debounceMs: 0,
+    clearDebounceMs: 0,
+    flapThreshold: DEFAULT_FLAP_THRESHOLD,
+    flapWindowMs: DEFAULT_FLAP_WINDOW_MS,
+  };
+
+  const merged = new Map<string, RuleSpec>();
+  for (const def of DEFAULT_RULES) merged.set(def.id, { ...ruleDefaults, ...def });
+
+  const seen = new Set<string>();
+  for (const [i, spec] of (Array.isArray(file.conditions) ? file.conditions : []).entries()) {
+    if (!spec || typeof spec !== "object" || typeof spec.id !== "string" || !ID_PATTERN.test(spec.id)) {
+      errors.push(`conditions[${i}]: id must match ${ID_PATTERN}`);
+      continue;
+    }
+    if (seen.has(spec.id)) {
+      errors.push(`conditions[${i}]: duplicate id ${spec.id}`);
+      continue;
+    }
+    seen.add(spec.id);
+
+    const base = merged.get(spec.id);
+    merged.set(spec.id, { ...(base ?? ruleDefaults), ...spec });
+  }
+
+  const conditions: ConditionDef[] = [];
+  for (const spec of merged.values()) {
+    if (spec.enabled === false) continue;
+    const def = compileRule(spec, errors);
+    if (def) conditions.push(def);
+  }
+
+  const remediation = buildRemediation(file.remediation, new Set(conditions.map((c) => c.id)), errors);
+
+  return {
+    snapshot: {
+      source: file.conditions || file.remediation || file.warmupSec !== undefined ? "file" : "builtin",
+      loadedAt: Date.now(),
+      warmupSec: file.warmupSec ?? DEFAULT_WARMUP_SEC,
+      conditions,
+      remediation,
+    },
+    errors,
+  };
+}
+
+// --- Active rules + hot reload ---
+
+let current: RulesSnapshot = buildRules({}).snapshot;
+let lastMtimeMs = -1;
+
+function readRulesFile(): RulesFile | null {
+  if (!fs.existsSync(RULES_PATH)) return null;
+  const raw = fs.readFileSync(RULES_PATH, "utf-8");
+  const parsed = JSON.parse(raw);
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("rules file must contain a JSON object");
+  }
+  return parsed as RulesFile;
+}
+
+/** (Re)load rules from disk. Keeps the previous rules if the file is invalid. */
+export function loadRules(): { ok: boolean; snapshot: RulesSnapshot; errors: string[] } {
+  let file: RulesFile | null;
+  try {
+    file = readRulesFile();
+  } catch (e: any) {
+    const errors = [`Failed to read ${RULES_PATH}: ${e.message}`];
+    console.error(`[rules] ${errors[0]} — keeping previous rules`);
+    return { ok: false, snapshot: current, errors };
+  }
+
+  const { snapshot, errors } = buildRules(file ?? {});
+  if (errors.length > 0) {
+    console.error(`[rules] Rejected ${RULES_PATH}:\n  ${errors.join("\n  ")}`);
+    return { ok: false, snapshot: current, errors };
+  }
+
+  current = snapshot;
+  console.log(`[rules] Loaded ${snapshot.conditions.length} conditions (${snapshot.source})`);
+  return { ok: true, snapshot, errors };
+}
+
+/** Poll the rules file and reload on change */
+export function watchRules(onChange: RulesChangeCallback): void {
+  lastMtimeMs = fs.existsSync(RULES_PATH) ? fs.statSync(RULES_PATH).mtimeMs : 0;
+
+  fs.watchFile(RULES_PATH, { interval: 2_000, persistent: false }, (stat) => {
+    if (stat.mtimeMs === lastMtimeMs) return;
+    lastMtimeMs = stat.mtimeMs;
+    console.log(`[rules] ${RULES_PATH} changed, reloading...`);
+    onChange(loadRules());
+  });
+}
+
+export function getRules(): RulesSnapshot {
+  return current;
+}
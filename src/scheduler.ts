@@ -0,0 +1,397 @@
+/**
+ * Scheduled commands and maintenance windows.
+ *
+ * Each job has a cron expression (minute hour day-of-month month day-of-week,
+ * local time). Command jobs dispatch a registered command through the
+ * CommandProcessor, so lease rules, acks and events apply as for any other sender.
+ * Maintenance jobs open a window at each match that lasts durationMin; while it is
+ * open, the listed conditions (or all of them) are suppressed.
+ *
+ * Jobs are persisted to schedule.json in the data dir.
+ */
+
+import * as fs from "fs";
+import { dataPath } from "./config";
+import type { CommandProcessor } from "./commands";
+import type { LeaseManager } from "./lease";
+import type { WatchdogEventEmitter } from "./events";
+import type { CommandType } from "./types";
+
+const TICK_MS = 5_000;
+const MINUTE_MS = 60_000;
+export const MAX_WINDOW_MIN = 24 * 60;   // longest maintenance window
+
+// --- Cron expressions (pure, exported for tests) ---
+
+export interface CronSpec {
+  minute: Set<number>;
+  hour: Set<number>;
+  dayOfMonth: Set<number>;
+  month: Set<number>;
+  dayOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const CRON_FIELDS: [name: string, min: number, max: number][] = [
+  ["minute", 0, 59],
+  ["hour", 0, 23],
+  ["day-of-month", 1, 31],
+  ["month", 1, 12],
+  ["day-of-week", 0, 7],
+];
+
+/** Parse one field: `*`, `n` or `a-b`, each with an optional `/step`, or a comma list of those */
+function parseCronField(text: string, name: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!match) throw new Error(`Invalid cron ${name} "${part}"`);
+    let [from, to] = match[1] === "*" ? [min, max] : match[1].split("-").map(Number);
+    if (to === undefined) to = match[2] ? max : from;
+    const step = match[2] ? Number(match[2]) : 1;
+    if (from < min || to > max || from > to || step < 1) throw new Error(`Cron ${name} "${part}" out of range ${min}-${max}`);
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+  return values;
+}
+
+export function parseCron(expr: string): CronSpec {
+  const fields = expr.trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error(`Cron "${expr}" must have 5 fields (minute hour day-of-month month day-of-week)`);
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((f, i) => parseCronField(f, ...CRON_FIELDS[i]));
+  if (dayOfWeek.delete(7)) dayOfWeek.add(0);   // 7 is Sunday too
+  return {
+    minute, hour, dayOfMonth, month, dayOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+/** Standard cron: when both day fields are restricted, either may match */
+function dayMatches(spec: CronSpec, d: Date): boolean {
+  const dom = spec.dayOfMonth.has(d.getDate());
+  const dow = spec.dayOfWeek.has(d.getDay());
+  if (spec.anyDayOfMonth) return dow;
+  if (spec.anyDayOfWeek) return dom;
+  return dom || dow;
+}
+
+export function cronMatches(spec: CronSpec, d: Date): boolean {
+  return spec.minute.has(d.getMinutes()) && spec.hour.has(d.getHours()) && spec.month.has(d.getMonth() + 1) && dayMatches(spec, d);
+}
+
+/** First matching minute after `from`, skipping whole months/days/hours that can't match */
+export function nextMatch(spec: CronSpec, from: number): number | null {
+  const d = new Date(Math.floor(from / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = from + 5 * 366 * 24 * 60 * MINUTE_MS;
+  while (d.getTime() < limit) {
+    if (!spec.month.has(d.getMonth() + 1)) {
+      d.setMonth(d.getMonth() + 1, 1);
+      d.setHours(0, 0, 0, 0);
+    } else if (!dayMatches(spec, d)) {
+      d.setDate(d.getDate() + 1);
+      d.setHours(0, 0, 0, 0);
+    } else if (!spec.hour.has(d.getHours())) {
+      d.setHours(d.getHours() + 1, 0, 0, 0);
+    } else if (!spec.minute.has(d.getMinutes())) {
+      d.setMinutes(d.getMinutes() + 1, 0, 0);
+    } else {
+      return d.getTime();
+    }
+  }
+  return null;
+}
+
+/** Start of the most recent match within the last `lookbackMin` minutes, or null */
+export function lastMatch(spec: CronSpec, now: number, lookbackMin: number): number | null {
+  const start = Math.floor(now / MINUTE_MS) * MINUTE_MS;
+  for (let i = 0; i < lookbackMin; i++) {
+    const ts = start - i * MINUTE_MS;
+    if (cronMatches(spec, new Date(ts))) return ts;
+  }
+  return null;
+}
+
+// --- Jobs ---
+
+interface JobBase {
+  id: string;
+  cron: string;
+  description: string;
+  createdAt: number;
+  createdBy: string;
+}
+
+export interface CommandJob extends JobBase {
+  kind: "command";
+  command: CommandType;
+  args: Record<string, any>;
+}
+
+export interface MaintenanceJob extends JobBase {
+  kind: "maintenance";
+  durationMin: number;
+  suppress: string[];   // condition ids; empty = all conditions
+}
+
+export type ScheduleJob = CommandJob | MaintenanceJob;
+
+/** SCHEDULE_ADD arguments — `command` makes a command job, `durationMin` a maintenance window */
+export interface ScheduleSpec {
+  id?: string;
+  cron: string;
+  description?: string;
+  command?: CommandType;
+  args?: Record<string, any>;
+  durationMin?: number;
+  suppress?: string[];
+}
+
+/** SCHEDULE_ADD arguments, already checked against its schema */
+export function toScheduleSpec(args: Record<string, any>): ScheduleSpec {
+  return {
+    id: args.id,
+    cron: args.cron,
+    description: args.description,
+    command: args.command,
+    args: args.args,
+    durationMin: args.durationMin,
+    suppress: args.suppress,
+  };
+}
+
+export interface ScheduleEntry {
+  job: ScheduleJob;
+  nextRunAt: number | null;
+  lastRunAt: number | null;
+  lastStatus: string | null;
+  windowEndsAt: number | null;   // maintenance jobs: end of the open window
+}
+
+interface JobRuntime {
+  job: ScheduleJob;
+  spec: CronSpec;
+  lastRunAt: number | null;
+  lastStatus: string | null;
+  windowEndsAt: number | null;
+}
+
+function schedulePath(): string {
+  return dataPath("schedule.json");
+}
+
+/**
+ * Fires cron jobs and tracks maintenance windows. Like remediation, scheduled
+ * commands are skipped while a lease is held — a human operator is in control.
+ */
+export class Scheduler {
+  private commandProcessor: CommandProcessor;
+  private leaseManager: LeaseManager;
+  private eventEmitter: WatchdogEventEmitter;
+  private jobs = new Map<string, JobRuntime>();
+  private lastMinute = Math.floor(Date.now() / MINUTE_MS);
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(commandProcessor: CommandProcessor, leaseManager: LeaseManager, eventEmitter: WatchdogEventEmitter) {
+    this.commandProcessor = commandProcessor;
+    this.leaseManager = leaseManager;
+    this.eventEmitter = eventEmitter;
+  }
+
+  /** Load the persisted jobs and start firing. Call once every command is registered — jobs are checked against them. */
+  start(): void {
+    if (this.timer) return;
+    this.load();
+    this.updateWindows(Date.now());
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+  }
+
+  /** Add a job, or replace the job with the same id. Throws on an invalid spec. */
+  add(spec: ScheduleSpec, createdBy: string): ScheduleJob {
+    const { job, cronSpec } = this.build(spec, createdBy, Date.now());
+
+    const previous = this.jobs.get(job.id);
+    this.jobs.set(job.id, { job, spec: cronSpec, lastRunAt: previous?.lastRunAt ?? null, lastStatus: previous?.lastStatus ?? null, windowEndsAt: null });
+    this.save();
+    if (previous?.windowEndsAt) this.endWindow(previous);
+    this.updateWindows(Date.now());
+    console.log(`[scheduler] ${previous ? "Updated" : "Added"} ${job.kind} job ${job.id} (${job.cron})`);
+    return job;
+  }
+
+  /** Turn a spec into a job — the checks beyond the SCHEDULE_ADD arg schema. Throws on an invalid spec. */
+  private build(spec: ScheduleSpec, createdBy: string, createdAt: number): { job: ScheduleJob; cronSpec: CronSpec } {
+    const cronSpec = parseCron(spec.cron);
+    const base = {
+      id: spec.id || `job-${Date.now().toString(36)}`,
+      cron: spec.cron.trim(),
+      description: spec.description ?? "",
+      createdAt,
+      createdBy,
+    };
+
+    let job: ScheduleJob;
+    if (spec.command !== undefined && spec.durationMin !== undefined) {
+      throw new Error("Give either command (scheduled command) or durationMin (maintenance window), not both");
+    } else if (spec.command !== undefined) {
+      if (spec.suppress !== undefined) throw new Error("suppress only applies to maintenance windows");
+      const errors = this.commandProcessor.validate(spec.command, spec.args ?? {});
+      if (errors.length > 0) {
+        throw new Error(`Invalid ${spec.command} arguments: ${errors.map((e) => `${e.field} ${e.message}`).join("; ")}`);
+      }
+      // Jobs run as the watchdog itself, which never holds the lease
+      if (this.commandProcessor.requiresLeaseHolder(spec.command)) {
+        throw new Error(`${spec.command} can only be run by the lease holder and can't be scheduled`);
+      }
+      job = { ...base, kind: "command", command: spec.command, args: spec.args ?? {} };
+    } else if (spec.durationMin !== undefined) {
+      if (spec.args !== undefined) throw new Error("args only applies to scheduled commands");
+      const suppress = spec.suppress ?? [];
+      if (!suppress.every((id) => typeof id === "string")) throw new Error("suppress must be a list of condition ids");
+      job = { ...base, kind: "maintenance", durationMin: spec.durationMin, suppress };
+    } else {
+      throw new Error("Give command (scheduled command) or durationMin (maintenance window)");
+    }
+    return { job, cronSpec };
+  }
+
+  /** Remove a job. Throws if it doesn't exist. */
+  remove(id: string): ScheduleJob {
+    const runtime = this.jobs.get(id);
+    if (!runtime) throw new Error(`No scheduled job ${id}`);
+    this.jobs.delete(id);
+    this.save();
+    if (runtime.windowEndsAt) this.endWindow(runtime);
+    console.log(`[scheduler] Removed job ${id}`);
+    return runtime.job;
+  }
+
+  list(): ScheduleEntry[] {
+    const now = Date.now();
+    return [...this.jobs.values()].map((r) => ({
+      job: r.job,
+      nextRunAt: nextMatch(r.spec, now),
+      lastRunAt: r.lastRunAt,
+      lastStatus: r.lastStatus,
+      windowEndsAt: r.windowEndsAt,
+    }));
+  }
+
+  /** True while an open maintenance window covers the condition */
+  isSuppressed(conditionId: string): boolean {
+    for (const r of this.jobs.values()) {
+      if (r.job.kind !== "maintenance" || !r.windowEndsAt) continue;
+      if (r.job.suppress.length === 0 || r.job.suppress.includes(conditionId)) return true;
+    }
+    return false;
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const minute = Math.floor(now / MINUTE_MS);
+    // Fire each minute at most once; minutes missed while asleep are not replayed
+    if (minute !== this.lastMinute) {
+      this.lastMinute = minute;
+      const date = new Date(minute * MINUTE_MS);
+      for (const runtime of this.jobs.values()) {
+        if (runtime.job.kind === "command" && cronMatches(runtime.spec, date)) this.fire(runtime, runtime.job);
+      }
+    }
+    this.updateWindows(now);
+  }
+
+  private fire(runtime: JobRuntime, job: CommandJob): void {
+    runtime.lastRunAt = Date.now();
+
+    const leaseOwner = this.leaseManager.getOwner();
+    if (leaseOwner) {
+      runtime.lastStatus = "SKIPPED";
+      this.eventEmitter.emitLifecycle("SCHEDULE_SKIPPED", "INFO", { jobId: job.id, command: job.command, leaseOwner });
+      return;
+    }
+
+    this.eventEmitter.emitLifecycle("SCHEDULE_FIRED", "INFO", { jobId: job.id, command: job.command });
+    this.commandProcessor.handleInternal(job.command, job.args, "scheduler")
+      .then((ack) => {
+        runtime.lastStatus = ack.status;
+        if (ack.status !== "APPLIED") {
+          this.eventEmitter.emitLifecycle("SCHEDULE_FAILED", "WARN", {
+            jobId: job.id,
+            command: job.command,
+            status: ack.status,
+            message: ack.message,
+          });
+        }
+      })
+      .catch((err: any) => {
+        runtime.lastStatus = "FAILED";
+        console.error(`[scheduler] ${job.command} for ${job.id} failed:`, err.message);
+      });
+  }
+
+  /** Open and close maintenance windows — also recovers a window that was open across a restart */
+  private updateWindows(now: number): void {
+    for (const runtime of this.jobs.values()) {
+      const job = runtime.job;
+      if (job.kind !== "maintenance") continue;
+      const startedAt = lastMatch(runtime.spec, now, job.durationMin);
+      const endsAt = startedAt === null ? null : startedAt + job.durationMin * MINUTE_MS;
+
+      if (endsAt && !runtime.windowEndsAt) {
+        runtime.windowEndsAt = endsAt;
+        runtime.lastRunAt = startedAt;
+        this.eventEmitter.emitLifecycle("MAINTENANCE_STARTED", "INFO", {
+          jobId: job.id,
+          until: endsAt,
+          suppress: job.suppress.length > 0 ? job.suppress : "all",
+        });
+      } else if (endsAt) {
+        runtime.windowEndsAt = endsAt;   // a match inside the window extends it
+      } else if (runtime.windowEndsAt) {
+        this.endWindow(runtime);
+      }
+    }
+  }
+
+  private endWindow(runtime: JobRuntime): void {
+    runtime.windowEndsAt = null;
+    this.eventEmitter.emitLifecycle("MAINTENANCE_ENDED", "INFO", { jobId: runtime.job.id });
+  }
+
+  // --- Persistence ---
+
+  private load(): void {
+    let raw: any;
+    try {
+      raw = JSON.parse(fs.readFileSync(schedulePath(), "utf-8"));
+    } catch (err: any) {
+      if (err.code !== "ENOENT") console.error("[scheduler] Failed to read schedule:", err.message);
+      return;
+    }
+
+    // Same checks as SCHEDULE_ADD — a hand-edited or stale file must not break evaluation
+    for (const saved of Array.isArray(raw?.jobs) ? raw.jobs : []) {
+      try {
+        if (!saved || typeof saved !== "object" || typeof saved.id !== "string" || !saved.id) throw new Error("missing id");
+        const spec = toScheduleSpec(saved);
+        const errors = this.commandProcessor.validate("SCHEDULE_ADD", spec);
+        if (errors.length > 0) throw new Error(errors.map((e) => `${e.field} ${e.message}`).join("; "));
+        const createdBy = typeof saved.createdBy === "string" ? saved.createdBy : "unknown";
+        const createdAt = typeof saved.createdAt === "number" ? saved.createdAt : Date.now();
+        const { job, cronSpec } = this.build(spec, createdBy, createdAt);
+        this.jobs.set(job.id, { job, spec: cronSpec, lastRunAt: null, lastStatus: null, windowEndsAt: null });
+      } catch (err: any) {
+        console.error(`[scheduler] Dropping invalid job ${saved?.id ?? "(no id)"}: ${err.message}`);
+      }
+    }
+    console.log(`[scheduler] Loaded ${this.jobs.size} scheduled job(s)`);
+  }
+
+  private save(): void {
+    const file = schedulePath();
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify({ jobs: [...this.jobs.values()].map((r) => r.job) }, null, 2));
+    fs.renameSync(tmp, file);
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Machine-bound encryption for secrets at rest (AES-256-GCM).
+ *
+ * The key is derived from the OS machine identifier, so a credentials file
+ * copied to another machine can't be decrypted. Sealed values look like
+ * "enc:v1:<base64 iv|tag|ciphertext>"; anything else is treated as plaintext.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+
+const PREFIX = "enc:v1:";
+const KEY_SALT = "vu-watchdog-secrets-v1";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+let key: Buffer | null = null;
+
+/** Windows MachineGuid, /etc/machine-id elsewhere, hostname as a last resort */
+function machineId(): string {
+  try {
+    if (process.platform === "win32") {
+      const proc = Bun.spawnSync(["reg", "query", "HKLM\\SOFTWARE\\Microsoft\\Cryptography", "/v", "MachineGuid"]);
+      const match = proc.stdout.toString().match(/MachineGuid\s+REG_SZ\s+(\S+)/);
+      if (match) return match[1];
+    } else {
+      for (const file of ["/etc/machine-id", "/var/lib/dbus/machine-id"]) {
+        if (fs.existsSync(file)) {
+          const id = fs.readFileSync(file, "utf-8").trim();
+          if (id) return id;
+        }
+      }
+    }
+  } catch {}
+  console.warn("[secrets] Machine id unavailable, falling back to hostname");
+  return os.hostname();
+}
+
+function getKey(): Buffer {
+  key ??= crypto.scryptSync(machineId(), KEY_SALT, 32);
+  return key;
+}
+
+export function isSealed(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/** Encrypt a secret for storage. Empty and already-sealed values are returned as-is. */
+export function seal(plain: string): string {
+  if (!plain || isSealed(plain)) return plain;
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plain, "utf-8"), cipher.final()]);
+  return PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+/** Decrypt a stored secret. Plaintext passes through; throws if sealed on another machine. */
+export function unseal(value: string): string {
+  if (!isSealed(value)) return value;
+  const raw = Buffer.from(value.slice(PREFIX.length), "base64");
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getKey(), raw.subarray(0, IV_BYTES));
+  decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString("utf-8");
+}
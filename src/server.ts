@@ -1,21 +1,29 @@
 import html from "../index.html" with { type: "text" };
-import type { TelemetryPayload, HealthPayload, EventPayload, AckPayload } from "./types";
+import type { TelemetryPayload, HealthPayload, EventPayload, AckPayload, LeasePayload } from "./types";
 import { readConfigs, VUOS_DIR } from "./config";
-import { getMqttBrokerConfig, getActiveBrokerId } from "./mqtt";
+import { getMqttBrokerConfig, getActiveBrokerId, getActiveClient } from "./mqtt";
+import { listBrokers, addBroker, updateBroker, removeBroker } from "./credentials";
+import { authenticate, hasRole, type Caller } from "./auth";
 import type { ServerWebSocket } from "bun";
 import type { CommandProcessor } from "./commands";
 import {
-  startStreaming, stopStreaming, getStreamingState, getViewerUrl,
-  isStreamerAvailable, type StreamingState
+  getStreamingState, getViewerUrl, isStreamerAvailable, type StreamingState
 } from "./streaming";
 import {
-  startRemoteViewing, stopRemoteViewing, getRemoteBridgeState,
-  setRemoteStateChangeCallback, type RemoteBridgeState
+  isHistoryAvailable, queryTelemetry, queryHealth, queryEvents, queryLease,
+} from "./history";
+import type { EventSeverity } from "./types";
+import { getConditionStates } from "./health";
+import { pendingCount } from "./outbox";
+import { renderMetrics, recordAck, PROMETHEUS_CONTENT_TYPE, OPENMETRICS_CONTENT_TYPE } from "./metrics";
+import {
+  getRemoteBridgeState, setRemoteStateChangeCallback, type RemoteBridgeState
 } from "./remote-bridge";
 
 const PORT = 3200;
+const HOSTNAME = process.env.WATCHDOG_HTTP_BIND || "0.0.0.0";   // e.g. 127.0.0.1 to keep the API off the LAN
 
-type WsData = { id: number };
+type WsData = { id: number; caller: Caller };
 
 const wsClients = new Set<ServerWebSocket<WsData>>();
 let nextId = 0;
@@ -23,9 +31,11 @@ let nextId = 0;
 let latestTelemetry: TelemetryPayload | null = null;
 let latestHealth: HealthPayload | null = null;
 let commandProcessor: CommandProcessor | null = null;
+let latestLease: LeasePayload | null = null;
 
 export function setCommandProcessor(cp: CommandProcessor) {
   commandProcessor = cp;
+  cp.onQueueChange((queue) => broadcast({ type: "commandQueue", data: queue }));
 }
 
 export function updateTelemetry(data: TelemetryPayload) {
@@ -43,9 +53,15 @@ export function broadcastEvent(event: EventPayload) {
 }
 
 export function broadcastAck(ack: AckPayload) {
+  recordAck(ack.status);
   broadcast({ type: "ack", data: ack });
 }
 
+export function broadcastLease(lease: LeasePayload) {
+  latestLease = lease;
+  broadcast({ type: "lease", data: lease });
+}
+
 export function broadcastCommand(command: {
   timestamp: number;
   address: string;
@@ -93,12 +109,25 @@ export function startServer(wallId: string) {
 
   Bun.serve<WsData>({
     port: PORT,
+    hostname: HOSTNAME,
     async fetch(req, server) {
       const url = new URL(req.url);
 
+      // Auth: viewers may read, only operators may change anything
+      const caller = authenticate(req, server.requestIP(req)?.address);
+      if (!caller) {
+        return new Response("Authentication required", {
+          status: 401,
+          headers: { "WWW-Authenticate": 'Basic realm="Vu Watchdog", charset="UTF-8"' },
+        });
+      }
+      if (req.method !== "GET" && req.method !== "HEAD" && !hasRole(caller, "operator")) {
+        return jsonResponse({ ok: false, error: "Operator role required" }, 403);
+      }
+
       // WebSocket upgrade
       if (url.pathname === "/ws") {
-        const upgraded = server.upgrade(req, { data: { id: nextId++ } });
+        const upgraded = server.upgrade(req, { data: { id: nextId++, caller } });
         if (!upgraded) {
           return new Response("WebSocket upgrade failed", { status: 400 });
         }
@@ -112,7 +141,7 @@ export function startServer(wallId: string) {
         if (!commandProcessor) {
           return jsonResponse({ ok: false, error: "Not ready" }, 503);
         }
-        const ack = await commandProcessor.handleLocal("START_VUOS");
+        const ack = await commandProcessor.handleLocal("START_VUOS", {}, caller);
         return jsonResponse({ ok: ack.status === "APPLIED", ack });
       }
 
@@ -121,7 +150,7 @@ export function startServer(wallId: string) {
         if (!commandProcessor) {
           return jsonResponse({ ok: false, error: "Not ready" }, 503);
         }
-        const ack = await commandProcessor.handleLocal("RESTART_VUOS");
+        const ack = await commandProcessor.handleLocal("RESTART_VUOS", {}, caller);
         return jsonResponse({ ok: ack.status === "APPLIED", ack });
       }
 
@@ -136,75 +165,59 @@ export function startServer(wallId: string) {
           if (!brokerId) {
             return jsonResponse({ ok: false, error: "Missing brokerId" }, 400);
           }
-          const ack = await commandProcessor.handleLocal("SWITCH_BROKER", { brokerId });
+          const ack = await commandProcessor.handleLocal("SWITCH_BROKER", { brokerId }, caller);
           return jsonResponse({ ok: ack.status === "APPLIED", ack, activeBrokerId: getActiveBrokerId() });
         } catch (e: any) {
           return jsonResponse({ ok: false, error: e.message }, 500);
         }
       }
 
+      // Control lease
+      if (url.pathname === "/api/lease" && req.method === "GET") {
+        if (!latestLease) {
+          return jsonResponse({ ok: false, error: "Not ready" }, 503);
+        }
+        return jsonResponse(latestLease);
+      }
+
+      // Break glass — take the lease from a remote holder
+      if (url.pathname === "/api/lease-revoke" && req.method === "POST") {
+        if (!commandProcessor) {
+          return jsonResponse({ ok: false, error: "Not ready" }, 503);
+        }
+        const ack = await commandProcessor.handleLocal("LEASE_REVOKE", { reason: "break glass" }, caller);
+        return jsonResponse({ ok: ack.status === "APPLIED", ack });
+      }
+
       // Quit watchdog
       if (url.pathname === "/api/quit" && req.method === "POST") {
         if (!commandProcessor) {
           return jsonResponse({ ok: false, error: "Not ready" }, 503);
         }
-        const ack = await commandProcessor.handleLocal("QUIT_WATCHDOG");
+        const ack = await commandProcessor.handleLocal("QUIT_WATCHDOG", {}, caller);
         return jsonResponse({ ok: ack.status === "APPLIED", ack });
       }
 
       // --- Screen Streaming Endpoints ---
 
-      // Start streaming
+      // Start and stop go through the command processor, so they queue on the
+      // "stream" resource and remote callers need the lease like any other command
       if (url.pathname === "/api/stream-start" && req.method === "POST") {
-        try {
-          if (!isStreamerAvailable()) {
-            return jsonResponse({
-              ok: false,
-              error: "webrtc-streamer not installed. Run: bun scripts/download-webrtc-streamer.ts"
-            }, 400);
-          }
-
-          // Parse optional config from body
-          let config: { monitor?: number } = {};
-          try {
-            const body = await req.json();
-            if (body.monitor !== undefined) config.monitor = body.monitor;
-          } catch {}
-
-          await startStreaming(config);
-          const state = getStreamingState();
-          broadcast({ type: "streaming", data: { ...state, available: true } });
-
-          // Auto-start remote viewing
-          try {
-            await startRemoteViewing(wallId);
-            const bridgeState = getRemoteBridgeState();
-            broadcast({ type: "remoteStreaming", data: bridgeState });
-          } catch (e: any) {
-            console.error("[server] Failed to auto-start remote viewing:", e.message);
-          }
-
-          return jsonResponse({ ok: true, state, remote: getRemoteBridgeState() });
-        } catch (e: any) {
-          return jsonResponse({ ok: false, error: e.message }, 500);
+        if (!commandProcessor) {
+          return jsonResponse({ ok: false, error: "Not ready" }, 503);
         }
+        // Optional { monitor, quality, width, height, fps, bitrate }
+        const body = await req.json().catch(() => ({}));
+        const ack = await commandProcessor.handleLocal("START_STREAM", body ?? {}, caller);
+        return commandResponse(ack);
       }
 
-      // Stop streaming
       if (url.pathname === "/api/stream-stop" && req.method === "POST") {
-        try {
-          // Stop remote viewing first
-          await stopRemoteViewing();
-          broadcast({ type: "remoteStreaming", data: getRemoteBridgeState() });
-
-          // Then stop local streaming
-          await stopStreaming();
-          const state = getStreamingState();
-          broadcast({ type: "streaming", data: { ...state, available: isStreamerAvailable() } });
-          return jsonResponse({ ok: true, state });
-        } catch (e: any) {
-          return jsonResponse({ ok: false, error: e.message }, 500);
+        if (!commandProcessor) {
+          return jsonResponse({ ok: false, error: "Not ready" }, 503);
         }
+        const ack = await commandProcessor.handleLocal("STOP_STREAM", {}, caller);
+        return commandResponse(ack);
       }
 
       // Get streaming status
@@ -220,37 +233,20 @@ export function startServer(wallId: string) {
 
       // --- Remote Streaming (VDO.ninja Bridge) Endpoints ---
 
-      // Start remote streaming
       if (url.pathname === "/api/remote-stream-start" && req.method === "POST") {
-        try {
-          // Ensure local streaming is running first
-          const streamState = getStreamingState();
-          if (streamState.status !== "running") {
-            return jsonResponse({
-              ok: false,
-              error: "Local streaming must be running first. Start it via /api/stream-start"
-            }, 400);
-          }
-
-          const viewerUrl = await startRemoteViewing(wallId);
-          const bridgeState = getRemoteBridgeState();
-          broadcast({ type: "remoteStreaming", data: bridgeState });
-          return jsonResponse({ ok: true, ...bridgeState });
-        } catch (e: any) {
-          return jsonResponse({ ok: false, error: e.message }, 500);
+        if (!commandProcessor) {
+          return jsonResponse({ ok: false, error: "Not ready" }, 503);
         }
+        const ack = await commandProcessor.handleLocal("START_REMOTE_VIEWING", {}, caller);
+        return commandResponse(ack);
       }
 
-      // Stop remote streaming
       if (url.pathname === "/api/remote-stream-stop" && req.method === "POST") {
-        try {
-          await stopRemoteViewing();
-          const bridgeState = getRemoteBridgeState();
-          broadcast({ type: "remoteStreaming", data: bridgeState });
-          return jsonResponse({ ok: true, ...bridgeState });
-        } catch (e: any) {
-          return jsonResponse({ ok: false, error: e.message }, 500);
+        if (!commandProcessor) {
+          return jsonResponse({ ok: false, error: "Not ready" }, 503);
         }
+        const ack = await commandProcessor.handleLocal("STOP_REMOTE_VIEWING", {}, caller);
+        return commandResponse(ack);
       }
 
       // Get remote streaming status
@@ -258,6 +254,108 @@ export function startServer(wallId: string) {
         return jsonResponse(getRemoteBridgeState());
       }
 
+      // Queued and running commands
+      if (url.pathname === "/api/commands" && req.method === "GET") {
+        if (!commandProcessor) {
+          return jsonResponse({ ok: false, error: "Not ready" }, 503);
+        }
+        return jsonResponse({ queue: commandProcessor.getQueue() });
+      }
+
+      // Command registry with argument schemas
+      if (url.pathname === "/api/commands/registry" && req.method === "GET") {
+        if (!commandProcessor) {
+          return jsonResponse({ ok: false, error: "Not ready" }, 503);
+        }
+        return jsonResponse({ commands: commandProcessor.listCommands() });
+      }
+
+      // --- Broker presets (secrets are write-only) ---
+
+      if (url.pathname === "/api/brokers" && req.method === "GET") {
+        return jsonResponse({ brokers: listBrokers(), activeBrokerId: getActiveBrokerId() });
+      }
+
+      if (url.pathname === "/api/brokers" && req.method === "POST") {
+        try {
+          const broker = addBroker(await req.json());
+          broadcast({ type: "config", data: getConfigPayload() });
+          return jsonResponse({ ok: true, broker }, 201);
+        } catch (e: any) {
+          return jsonResponse({ ok: false, error: e.message }, 400);
+        }
+      }
+
+      if (url.pathname.startsWith("/api/brokers/")) {
+        const brokerId = decodeURIComponent(url.pathname.slice("/api/brokers/".length));
+        try {
+          if (req.method === "PUT") {
+            const broker = updateBroker(brokerId, await req.json());
+            broadcast({ type: "config", data: getConfigPayload() });
+            return jsonResponse({ ok: true, broker });
+          }
+          if (req.method === "DELETE") {
+            if (brokerId === getActiveBrokerId()) {
+              return jsonResponse({ ok: false, error: "Can't remove the active broker — switch first" }, 409);
+            }
+            removeBroker(brokerId);
+            broadcast({ type: "config", data: getConfigPayload() });
+            return jsonResponse({ ok: true });
+          }
+        } catch (e: any) {
+          return jsonResponse({ ok: false, error: e.message }, 400);
+        }
+      }
+
+      // --- History ---
+
+      if (url.pathname.startsWith("/api/history/") && req.method === "GET") {
+        if (!isHistoryAvailable()) {
+          return jsonResponse({ ok: false, error: "History store unavailable" }, 503);
+        }
+        const to = numberParam(url, "to") ?? Date.now();
+        const from = numberParam(url, "from") ?? to - 60 * 60_000;
+
+        if (url.pathname === "/api/history/telemetry") {
+          const step = numberParam(url, "step") ?? 60_000;
+          return jsonResponse({ from, to, step, samples: queryTelemetry({ from, to, step }) });
+        }
+
+        if (url.pathname === "/api/history/health") {
+          return jsonResponse({ from, to, changes: queryHealth(from, to) });
+        }
+
+        if (url.pathname === "/api/history/events") {
+          const severity = url.searchParams.get("severity")?.split(",").filter(Boolean) as EventSeverity[] | undefined;
+          const type = url.searchParams.get("type") || undefined;
+          const limit = Math.min(numberParam(url, "limit") ?? 500, 5000);
+          return jsonResponse({ from, to, events: queryEvents({ from, to, severity, type, limit }) });
+        }
+
+        if (url.pathname === "/api/history/lease") {
+          return jsonResponse({ from, to, tenures: queryLease(from, to) });
+        }
+      }
+
+      // Prometheus scrape (OpenMetrics if the scraper asks for it)
+      if (url.pathname === "/metrics" && req.method === "GET") {
+        const openMetrics = (req.headers.get("accept") || "").includes("application/openmetrics-text");
+        const body = renderMetrics({
+          wallId,
+          telemetry: latestTelemetry,
+          mode: latestHealth?.mode ?? null,
+          conditions: getConditionStates(),
+          mqtt: {
+            connected: getActiveClient()?.connected ?? false,
+            brokerId: getActiveBrokerId(),
+            outboxPending: pendingCount(),
+          },
+        }, openMetrics);
+        return new Response(body, {
+          headers: { "Content-Type": openMetrics ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE },
+        });
+      }
+
       // Serve index.html
       if (url.pathname === "/" || url.pathname === "/index.html") {
         return new Response(html, {
@@ -287,14 +385,25 @@ export function startServer(wallId: string) {
           type: "remoteStreaming",
           data: getRemoteBridgeState()
         }));
+        if (commandProcessor) {
+          ws.send(JSON.stringify({ type: "commandQueue", data: commandProcessor.getQueue() }));
+        }
+        if (latestLease) {
+          ws.send(JSON.stringify({ type: "lease", data: latestLease }));
+        }
       },
-      message(_ws, msg) {
+      message(ws, msg) {
         // Handle inbound commands from local dashboard
         if (!commandProcessor) return;
         try {
           const parsed = JSON.parse(String(msg));
           if (parsed.type === "command" && parsed.data) {
-            commandProcessor.handleLocal(parsed.data.type, parsed.data.args || {});
+            const { caller } = ws.data;
+            if (!hasRole(caller, "operator")) {
+              console.log(`[server] Ignored ${parsed.data.type} from viewer ${caller.name}`);
+              return;
+            }
+            commandProcessor.handleLocal(parsed.data.type, parsed.data.args || {}, caller);
           }
         } catch {}
       },
@@ -304,7 +413,26 @@ export function startServer(wallId: string) {
     },
   });
 
-  console.log(`[watchdog] Dashboard: http://localhost:${PORT}`);
+  console.log(`[watchdog] Dashboard: http://localhost:${PORT} (listening on ${HOSTNAME})`);
+}
+
+/** Parse a numeric query param — accepts epoch ms or an ISO date */
+function numberParam(url: URL, name: string): number | undefined {
+  const raw = url.searchParams.get(name);
+  if (!raw) return undefined;
+  const n = Number(raw);
+  if (!isNaN(n)) return n;
+  const ts = Date.parse(raw);
+  return isNaN(ts) ? undefined : ts;
+}
+
+/**
+ * Result of a command-backed endpoint: the ack, plus its details (or its message as `error`) as the dashboard expects.
+ * A rejected command (bad args, no lease) is a 400, one that failed or was cancelled while running a 500.
+ */
+function commandResponse(ack: AckPayload): Response {
+  if (ack.status === "APPLIED") return jsonResponse({ ok: true, ack, ...ack.details });
+  return jsonResponse({ ok: false, ack, error: ack.message }, ack.status === "REJECTED" || ack.status === "EXPIRED" ? 400 : 500);
 }
 
 function jsonResponse(data: object, status = 200) {
@@ -0,0 +1,122 @@
+/**
+ * Verification of signed MQTT commands.
+ *
+ * A client with a key in the credentials file (commandKeys) must sign every
+ * command; with MQTT_COMMAND_SIGNING=required every MQTT command must be signed.
+ * The signature covers the canonical JSON (keys sorted, no whitespace) of
+ *   { args, clientId, commandId, ts, ttlMs, type, wallId }
+ * and is sent base64-encoded in `sig` — HMAC-SHA256 or Ed25519, per the key.
+ *
+ * Accepted commandIds are remembered (on disk) until their TTL runs out, so a
+ * captured command can't be replayed after the 60s idempotency window or a restart.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { dataPath } from "./config";
+import { getCommandKey, type CommandKey } from "./credentials";
+import type { CommandPayload } from "./types";
+
+const SIGNING_REQUIRED = (process.env.MQTT_COMMAND_SIGNING || "optional").toLowerCase() === "required";
+const MAX_CLOCK_SKEW_MS = 30_000;
+const MAX_SIGNED_TTL_MS = 10 * 60_000;   // bounds how long commandIds must be remembered
+
+// Raw 32-byte Ed25519 public keys are wrapped in this SPKI header
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+let seen: Map<string, number> | null = null;   // "clientId/commandId" → expiresAt
+
+function seenPath(): string {
+  return dataPath("seen-commands.json");
+}
+
+function loadSeen(): Map<string, number> {
+  if (seen) return seen;
+  seen = new Map();
+  try {
+    const now = Date.now();
+    for (const [id, expiresAt] of Object.entries(JSON.parse(fs.readFileSync(seenPath(), "utf-8")))) {
+      if (typeof expiresAt === "number" && expiresAt > now) seen.set(id, expiresAt);
+    }
+  } catch {}
+  return seen;
+}
+
+function rememberCommand(id: string, expiresAt: number): void {
+  const store = loadSeen();
+  const now = Date.now();
+  for (const [key, exp] of store) {
+    if (exp <= now) store.delete(key);
+  }
+  store.set(id, expiresAt);
+  try {
+    fs.writeFileSync(seenPath(), JSON.stringify(Object.fromEntries(store)));
+  } catch (err: any) {
+    console.error("[signing] Failed to persist replay store:", err.message);
+  }
+}
+
+/** JSON with object keys sorted at every level */
+export function canonicalJson(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value).sort().map((k) => `${JSON.stringify(k)}:${canonicalJson(value[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** The exact bytes a sender signs */
+export function signingInput(payload: CommandPayload, clientId: string, wallId: string): Buffer {
+  const { args, commandId, ts, ttlMs, type } = payload;
+  return Buffer.from(canonicalJson({ args: args ?? {}, clientId, commandId, ts, ttlMs, type, wallId }), "utf-8");
+}
+
+function publicKey(key: string): crypto.KeyObject {
+  if (key.includes("BEGIN PUBLIC KEY")) return crypto.createPublicKey(key);
+  return crypto.createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(key, "base64")]),
+    format: "der",
+    type: "spki",
+  });
+}
+
+function signatureValid(key: CommandKey, data: Buffer, sig: string): boolean {
+  if (!key.key) return false;
+  try {
+    const given = Buffer.from(sig, "base64");
+    if (key.alg === "hmac-sha256") {
+      const expected = crypto.createHmac("sha256", key.key).update(data).digest();
+      return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+    }
+    return crypto.verify(null, data, publicKey(key.key), given);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check an MQTT command's signature and freshness. Returns a REJECTED reason,
+ * or null if the command may proceed.
+ */
+export function verifyCommand(payload: CommandPayload, clientId: string, wallId: string): string | null {
+  const key = getCommandKey(clientId);
+  if (!key) {
+    if (SIGNING_REQUIRED) return `Unsigned command rejected: no key registered for ${clientId}`;
+    if (payload.sig) return `Signature present but no key registered for ${clientId}`;
+    return null;
+  }
+
+  if (typeof payload.sig !== "string" || !payload.sig) return `Signature required for ${clientId}`;
+  if (typeof payload.ts !== "number" || typeof payload.ttlMs !== "number") return "Signed command needs numeric ts and ttlMs";
+  if (payload.ts > Date.now() + MAX_CLOCK_SKEW_MS) return "Command timestamp is in the future (check sender clock)";
+  if (payload.ttlMs > MAX_SIGNED_TTL_MS) return `ttlMs exceeds ${MAX_SIGNED_TTL_MS} for signed commands`;
+
+  if (!signatureValid(key, signingInput(payload, clientId, wallId), payload.sig)) {
+    return `Invalid ${key.alg} signature for ${clientId}`;
+  }
+
+  const replayId = `${clientId}/${payload.commandId}`;
+  if ((loadSeen().get(replayId) ?? 0) > Date.now()) return `Replayed commandId ${payload.commandId}`;
+  rememberCommand(replayId, payload.ts + payload.ttlMs + MAX_CLOCK_SKEW_MS);
+  return null;
+}
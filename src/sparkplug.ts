@@ -0,0 +1,527 @@
+import * as fs from "fs";
+import mqtt, { type MqttClient } from "mqtt";
+import type { BrokerConfig } from "./credentials";
+import type { TelemetryPayload, OperationalMode, CommandType, AckPayload } from "./types";
+import { dataPath } from "./config";
+
+// --- Sparkplug configuration ---
+
+const config = {
+  enabled: (process.env.UNS_SPARKPLUG || "false").toLowerCase() === "true",
+  groupId: process.env.UNS_SPARKPLUG_GROUP || "vu-walls",
+  hostId: process.env.UNS_SPARKPLUG_HOST_ID || "sparkplug-host",   // client id NCMD commands run as
+};
+
+const NAMESPACE = "spBv1.0";
+const DEVICE_ID = "vuos";
+
+type MessageType = "NBIRTH" | "NDATA" | "NDEATH" | "NCMD" | "DBIRTH" | "DDATA";
+
+export function isSparkplugEnabled(): boolean {
+  return config.enabled;
+}
+
+// --- Payload codec (pure, exported for tests) ---
+
+// Hand-written protobuf for the Sparkplug B Payload message — only the fields we use.
+// Payload: 1 timestamp, 2 metrics, 3 seq.
+// Metric: 1 name, 3 timestamp, 4 datatype, 7 is_null, 10 int_value, 11 long_value,
+// 12 float_value, 13 double_value, 14 boolean_value, 15 string_value.
+
+export const DataType = {
+  Int8: 1, Int16: 2, Int32: 3, Int64: 4,
+  UInt8: 5, UInt16: 6, UInt32: 7, UInt64: 8,
+  Float: 9, Double: 10, Boolean: 11, String: 12,
+  DateTime: 13, Text: 14,
+} as const;
+
+export type MetricValue = number | boolean | string | null;
+
+export interface Metric {
+  name: string;
+  datatype: number;
+  value: MetricValue;
+}
+
+export interface Payload {
+  timestamp: number;
+  metrics: Metric[];
+  seq?: number;
+}
+
+function writeVarint(out: number[], value: number | bigint): void {
+  let n = BigInt.asUintN(64, BigInt(value));
+  while (n >= 0x80n) {
+    out.push(Number(n & 0x7fn) | 0x80);
+    n >>= 7n;
+  }
+  out.push(Number(n));
+}
+
+function writeTag(out: number[], field: number, wireType: number): void {
+  writeVarint(out, (field << 3) | wireType);
+}
+
+function writeBytes(out: number[], field: number, bytes: Uint8Array): void {
+  writeTag(out, field, 2);
+  writeVarint(out, bytes.length);
+  for (const b of bytes) out.push(b);
+}
+
+function encodeMetric(metric: Metric, timestamp: number): Uint8Array {
+  const out: number[] = [];
+  writeBytes(out, 1, Buffer.from(metric.name));
+  writeTag(out, 3, 0);
+  writeVarint(out, timestamp);
+  writeTag(out, 4, 0);
+  writeVarint(out, metric.datatype);
+
+  const value = metric.value;
+  if (value === null || (typeof value === "number" && !Number.isFinite(value))) {
+    writeTag(out, 7, 0);
+    writeVarint(out, 1);
+    return Uint8Array.from(out);
+  }
+
+  switch (metric.datatype) {
+    case DataType.Int8: case DataType.Int16: case DataType.Int32:
+    case DataType.UInt8: case DataType.UInt16: case DataType.UInt32:
+      writeTag(out, 10, 0);
+      writeVarint(out, Math.trunc(value as number) >>> 0);   // uint32 field, two's complement for negatives
+      break;
+    case DataType.Int64: case DataType.UInt64: case DataType.DateTime:
+      writeTag(out, 11, 0);
+      writeVarint(out, Math.trunc(value as number));
+      break;
+    case DataType.Double: {
+      const bytes = Buffer.alloc(8);
+      bytes.writeDoubleLE(value as number);
+      writeTag(out, 13, 1);
+      for (const b of bytes) out.push(b);
+      break;
+    }
+    case DataType.Boolean:
+      writeTag(out, 14, 0);
+      writeVarint(out, value ? 1 : 0);
+      break;
+    case DataType.String: case DataType.Text:
+      writeBytes(out, 15, Buffer.from(String(value)));
+      break;
+    default:
+      throw new Error(`Unsupported datatype ${metric.datatype} for ${metric.name}`);
+  }
+  return Uint8Array.from(out);
+}
+
+export function encodePayload(payload: Payload): Buffer {
+  const out: number[] = [];
+  writeTag(out, 1, 0);
+  writeVarint(out, payload.timestamp);
+  for (const metric of payload.metrics) {
+    writeBytes(out, 2, encodeMetric(metric, payload.timestamp));
+  }
+  if (payload.seq !== undefined) {
+    writeTag(out, 3, 0);
+    writeVarint(out, payload.seq);
+  }
+  return Buffer.from(out);
+}
+
+/** Split a protobuf message into field number → values (varints as bigint, the rest as bytes) */
+function readFields(buf: Uint8Array): Map<number, (bigint | Uint8Array)[]> {
+  const fields = new Map<number, (bigint | Uint8Array)[]>();
+  let pos = 0;
+
+  const readVarint = (): bigint => {
+    let result = 0n;
+    let shift = 0n;
+    while (true) {
+      if (pos >= buf.length) throw new Error("Truncated varint");
+      const b = buf[pos++];
+      result |= BigInt(b & 0x7f) << shift;
+      if ((b & 0x80) === 0) return result;
+      shift += 7n;
+    }
+  };
+  const readSlice = (length: number): Uint8Array => {
+    if (pos + length > buf.length) throw new Error("Truncated field");
+    const slice = buf.subarray(pos, pos + length);
+    pos += length;
+    return slice;
+  };
+
+  while (pos < buf.length) {
+    const tag = Number(readVarint());
+    const field = tag >>> 3;
+    let value: bigint | Uint8Array;
+    switch (tag & 7) {
+      case 0: value = readVarint(); break;
+      case 1: value = readSlice(8); break;
+      case 2: value = readSlice(Number(readVarint())); break;
+      case 5: value = readSlice(4); break;
+      default: throw new Error(`Unsupported wire type ${tag & 7}`);
+    }
+    if (!fields.has(field)) fields.set(field, []);
+    fields.get(field)!.push(value);
+  }
+  return fields;
+}
+
+function decodeMetric(buf: Uint8Array): Metric {
+  const fields = readFields(buf);
+  const first = (field: number) => fields.get(field)?.[0];
+  const text = (field: number) => Buffer.from((first(field) as Uint8Array) ?? []).toString();
+  const bytes = (field: number) => Buffer.from(first(field) as Uint8Array);
+
+  const name = text(1);
+  const datatype = Number(first(4) ?? 0n);
+  if (first(7) === 1n) return { name, datatype, value: null };
+
+  let value: MetricValue = null;
+  switch (datatype) {
+    case DataType.Int8: case DataType.Int16: case DataType.Int32:
+      value = Number(BigInt.asIntN(32, (first(10) as bigint) ?? 0n));
+      break;
+    case DataType.UInt8: case DataType.UInt16: case DataType.UInt32:
+      value = Number((first(10) as bigint) ?? 0n);
+      break;
+    case DataType.Int64:
+      value = Number(BigInt.asIntN(64, (first(11) as bigint) ?? 0n));
+      break;
+    case DataType.UInt64: case DataType.DateTime:
+      value = Number((first(11) as bigint) ?? 0n);
+      break;
+    case DataType.Float:
+      value = first(12) ? bytes(12).readFloatLE() : 0;
+      break;
+    case DataType.Double:
+      value = first(13) ? bytes(13).readDoubleLE() : 0;
+      break;
+    case DataType.Boolean:
+      value = first(14) === 1n;
+      break;
+    case DataType.String: case DataType.Text:
+      value = text(15);
+      break;
+  }
+  return { name, datatype, value };
+}
+
+export function decodePayload(buf: Uint8Array): Payload {
+  const fields = readFields(buf);
+  const seq = fields.get(3)?.[0];
+  return {
+    timestamp: Number((fields.get(1)?.[0] as bigint) ?? 0n),
+    metrics: (fields.get(2) ?? []).map((m) => decodeMetric(m as Uint8Array)),
+    seq: seq === undefined ? undefined : Number(seq),
+  };
+}
+
+// --- Metrics ---
+
+interface MetricDef {
+  name: string;
+  datatype: number;
+  value: (t: TelemetryPayload) => MetricValue;
+}
+
+// Edge node: the watchdog PC
+const NODE_METRICS: MetricDef[] = [
+  { name: "System/CPU Usage", datatype: DataType.Double, value: (t) => t.system.cpuUsage },
+  { name: "System/CPU Model", datatype: DataType.String, value: (t) => t.system.cpuModel },
+  { name: "System/CPU Cores", datatype: DataType.Int32, value: (t) => t.system.cpuCores },
+  { name: "System/RAM Total MB", datatype: DataType.Double, value: (t) => t.system.ramTotalMB },
+  { name: "System/RAM Used MB", datatype: DataType.Double, value: (t) => t.system.ramUsedMB },
+  { name: "System/RAM Percent", datatype: DataType.Double, value: (t) => t.system.ramPercent },
+  { name: "System/GPU Name", datatype: DataType.String, value: (t) => t.system.gpuName },
+  { name: "System/GPU Usage", datatype: DataType.Double, value: (t) => t.system.gpuUsage },
+  { name: "System/GPU Memory Used MB", datatype: DataType.Double, value: (t) => t.system.gpuMemUsedMB },
+  { name: "System/GPU Memory Total MB", datatype: DataType.Double, value: (t) => t.system.gpuMemTotalMB },
+  { name: "System/GPU Temperature", datatype: DataType.Double, value: (t) => t.system.gpuTemp },
+  { name: "System/Disk Total MB", datatype: DataType.Double, value: (t) => t.system.diskTotalMB },
+  { name: "System/Disk Used MB", datatype: DataType.Double, value: (t) => t.system.diskUsedMB },
+  { name: "System/Disk Percent", datatype: DataType.Double, value: (t) => t.system.diskPercent },
+  { name: "System/Disk Read MBps", datatype: DataType.Double, value: (t) => t.system.diskReadMBps },
+  { name: "System/Disk Write MBps", datatype: DataType.Double, value: (t) => t.system.diskWriteMBps },
+  { name: "System/Thermal Throttling", datatype: DataType.Boolean, value: (t) => t.system.thermalThrottling },
+  { name: "System/Pending Updates", datatype: DataType.Int32, value: (t) => t.system.pendingUpdates },
+  { name: "System/Event Log Errors", datatype: DataType.Int32, value: (t) => t.system.eventLog.count },
+  { name: "System/Event Log Last Message", datatype: DataType.String, value: (t) => t.system.eventLog.lastMessage },
+  { name: "System/Uptime", datatype: DataType.Int64, value: (t) => t.system.uptime },
+  { name: "Network/Internet Online", datatype: DataType.Boolean, value: (t) => t.network.internetOnline },
+  { name: "Network/Latency ms", datatype: DataType.Double, value: (t) => t.network.latencyMs },
+  { name: "Network/Local Server Reachable", datatype: DataType.Boolean, value: (t) => t.network.localServerReachable },
+  { name: "Network/Connected Peers", datatype: DataType.Int32, value: (t) => t.network.connectedPeers },
+];
+
+// Device: Vu One OS on that PC
+const DEVICE_METRICS: MetricDef[] = [
+  { name: "Process Running", datatype: DataType.Boolean, value: (t) => t.app.vuosProcessRunning },
+  { name: "Memory MB", datatype: DataType.Double, value: (t) => t.app.vuosMemoryMB },
+  { name: "Process/Responding", datatype: DataType.Boolean, value: (t) => t.app.vuosProcess?.responding ?? null },
+  { name: "Process/Threads", datatype: DataType.Int32, value: (t) => t.app.vuosProcess?.threads ?? null },
+  { name: "Process/Handles", datatype: DataType.Int32, value: (t) => t.app.vuosProcess?.handles ?? null },
+  { name: "Process/Priority", datatype: DataType.String, value: (t) => t.app.vuosProcess?.priority ?? null },
+  { name: "Process/CPU Time ms", datatype: DataType.Int64, value: (t) => t.app.vuosProcess?.cpuTimeMs ?? null },
+  { name: "Process/GPU Memory MB", datatype: DataType.Double, value: (t) => t.app.vuosProcess?.gpuMemoryMB ?? null },
+  { name: "Crashes Today", datatype: DataType.Int32, value: (t) => t.app.crashCountToday },
+  { name: "Server/Running", datatype: DataType.Boolean, value: (t) => t.app.serverProcessRunning },
+  { name: "Server/Version", datatype: DataType.String, value: (t) => t.app.serverVersion },
+  { name: "Server/Lock Healthy", datatype: DataType.Boolean, value: (t) => t.app.serverLock?.healthy ?? false },
+  { name: "Server/Heartbeat Age ms", datatype: DataType.Int64, value: (t) => t.app.serverLock?.heartbeatAgeMs ?? null },
+  { name: "Logs/Recent Errors", datatype: DataType.Int32, value: (t) => t.app.logs.recentErrorCount },
+  { name: "Logs/Last Error", datatype: DataType.String, value: (t) => t.app.logs.lastError },
+];
+
+const REBIRTH_METRIC = "Node Control/Rebirth";
+const COMMAND_PREFIX = "Command/";
+const LAST_RESULT_METRIC = "Command/Last Result";
+
+// --- Edge node state ---
+
+let client: MqttClient | null = null;
+let edgeNodeId = "";
+let seq = 0;                 // 0–255 across NBIRTH/NDATA/DBIRTH/DDATA, reset by every NBIRTH
+let born = false;            // births sent on the current connection
+let latest: { telemetry: TelemetryPayload; mode: OperationalMode } | null = null;
+let lastCommandResult = "";
+const lastNode = new Map<string, MetricValue>();     // last reported values (report by exception)
+const lastDevice = new Map<string, MetricValue>();
+
+// bdSeq goes up by one for every MQTT CONNECT; NBIRTH and the NDEATH will carry the same value
+let bdSeq = loadBdSeq();
+
+function bdSeqPath(): string {
+  return dataPath("sparkplug.json");
+}
+
+function loadBdSeq(): number {
+  try {
+    const saved = JSON.parse(fs.readFileSync(bdSeqPath(), "utf-8"));
+    if (Number.isInteger(saved.bdSeq)) return (saved.bdSeq + 1) % 256;
+  } catch (err: any) {
+    if (err.code !== "ENOENT") console.error("[sparkplug] Failed to read bdSeq:", err.message);
+  }
+  return 0;
+}
+
+function advanceBdSeq(): void {
+  bdSeq = (bdSeq + 1) % 256;
+  try {
+    fs.writeFileSync(bdSeqPath(), JSON.stringify({ bdSeq }));
+  } catch (err: any) {
+    console.error("[sparkplug] Failed to persist bdSeq:", err.message);
+  }
+}
+
+function topic(type: MessageType): string {
+  const base = `${NAMESPACE}/${config.groupId}/${type}/${edgeNodeId}`;
+  return type.startsWith("D") ? `${base}/${DEVICE_ID}` : base;
+}
+
+function deathPayload(): Buffer {
+  return encodePayload({
+    timestamp: Date.now(),
+    metrics: [{ name: "bdSeq", datatype: DataType.UInt64, value: bdSeq }],
+  });
+}
+
+function send(type: MessageType, metrics: Metric[]): void {
+  if (!client) return;
+  const payload = encodePayload({ timestamp: Date.now(), metrics, seq });
+  seq = (seq + 1) % 256;
+  client.publish(topic(type), payload, { qos: 0, retain: false });
+}
+
+function nodeMetrics(): Metric[] {
+  const { telemetry, mode } = latest!;
+  return [
+    ...NODE_METRICS.map((def) => ({ name: def.name, datatype: def.datatype, value: def.value(telemetry) })),
+    { name: "Mode", datatype: DataType.String, value: mode },
+    { name: LAST_RESULT_METRIC, datatype: DataType.String, value: lastCommandResult },
+  ];
+}
+
+function deviceMetrics(): Metric[] {
+  const { telemetry } = latest!;
+  return DEVICE_METRICS.map((def) => ({ name: def.name, datatype: def.datatype, value: def.value(telemetry) }));
+}
+
+/** Metrics whose value differs from the last report; updates the last-reported map */
+function changed(metrics: Metric[], last: Map<string, MetricValue>): Metric[] {
+  const result = metrics.filter((m) => last.get(m.name) !== m.value);
+  for (const m of result) last.set(m.name, m.value);
+  return result;
+}
+
+/** NBIRTH + DBIRTH with every metric — on connect, first data and rebirth requests */
+function birth(): void {
+  if (!client?.connected || !latest) return;
+
+  const node = nodeMetrics();
+  const device = deviceMetrics();
+  lastNode.clear();
+  lastDevice.clear();
+  changed(node, lastNode);
+  changed(device, lastDevice);
+
+  const commands = (commandHandler?.commands() ?? []).map((type) => ({
+    name: `${COMMAND_PREFIX}${type}`,
+    datatype: DataType.String,
+    value: "",
+  }));
+
+  seq = 0;
+  send("NBIRTH", [
+    { name: "bdSeq", datatype: DataType.UInt64, value: bdSeq },
+    { name: REBIRTH_METRIC, datatype: DataType.Boolean, value: false },
+    ...node,
+    ...commands,
+  ]);
+  send("DBIRTH", device);
+  born = true;
+  console.log(`[sparkplug] Published NBIRTH/DBIRTH for ${config.groupId}/${edgeNodeId} (bdSeq ${bdSeq})`);
+}
+
+function sendChanges(): void {
+  if (!client?.connected || !latest) return;
+  if (!born) {
+    birth();
+    return;
+  }
+  const node = changed(nodeMetrics(), lastNode);
+  if (node.length > 0) send("NDATA", node);
+  const device = changed(deviceMetrics(), lastDevice);
+  if (device.length > 0) send("DDATA", device);
+}
+
+/** Report the latest telemetry and mode — NDATA/DDATA with the metrics that changed */
+export function publishSparkplug(telemetry: TelemetryPayload, mode: OperationalMode): void {
+  if (!config.enabled) return;
+  latest = { telemetry, mode };
+  sendChanges();
+}
+
+// --- Commands (NCMD) ---
+
+export interface SparkplugCommandHandler {
+  commands: () => CommandType[];
+  execute: (type: CommandType, args: Record<string, any>, clientId: string) => Promise<AckPayload>;
+}
+
+let commandHandler: SparkplugCommandHandler | null = null;
+
+/** Registered commands are offered as `Command/{TYPE}` metrics and run through the handler */
+export function setSparkplugCommandHandler(handler: SparkplugCommandHandler): void {
+  commandHandler = handler;
+}
+
+function handleNcmd(buf: Buffer): void {
+  let payload: Payload;
+  try {
+    payload = decodePayload(buf);
+  } catch (err: any) {
+    console.error("[sparkplug] Ignoring malformed NCMD:", err.message);
+    return;
+  }
+
+  for (const metric of payload.metrics) {
+    if (metric.name === REBIRTH_METRIC) {
+      if (metric.value === true) {
+        console.log("[sparkplug] Rebirth requested");
+        birth();
+      }
+    } else if (metric.name.startsWith(COMMAND_PREFIX) && metric.name !== LAST_RESULT_METRIC) {
+      runCommand(metric.name.slice(COMMAND_PREFIX.length), metric.value);
+    } else {
+      console.log(`[sparkplug] Ignoring NCMD metric ${metric.name}`);
+    }
+  }
+}
+
+/** A `Command/{TYPE}` write: true or "" runs it without args, a JSON string carries args */
+function runCommand(type: string, value: MetricValue): void {
+  if (!commandHandler?.commands().includes(type as CommandType)) {
+    reportResult(`${type} REJECTED: Unknown command`);
+    return;
+  }
+  if (value === false || value === null) return;
+
+  let args: Record<string, any> = {};
+  if (typeof value === "string" && value.trim() !== "") {
+    try {
+      args = JSON.parse(value);
+    } catch {
+      reportResult(`${type} REJECTED: Args are not valid JSON`);
+      return;
+    }
+  }
+
+  commandHandler
+    .execute(type as CommandType, args, config.hostId)
+    .then((ack) => reportResult(`${type} ${ack.status}: ${ack.message}`))
+    .catch((err) => reportResult(`${type} FAILED: ${err.message}`));
+}
+
+function reportResult(result: string): void {
+  lastCommandResult = result;
+  sendChanges();
+}
+
+// --- Connection ---
+
+// Sparkplug ties NBIRTH to the session whose will is the NDEATH, so the edge node
+// gets its own connection to the active broker (like the UNS presence connection).
+
+/** Open the Sparkplug edge node connection for the active broker */
+export function startSparkplug(broker: BrokerConfig, wallId: string): void {
+  if (!config.enabled) return;
+  stopSparkplug();
+
+  edgeNodeId = wallId;
+  born = false;
+  const will = () => ({ topic: topic("NDEATH"), payload: deathPayload(), qos: 1 as const, retain: false });
+  const c = mqtt.connect(broker.url, {
+    username: broker.username || undefined,
+    password: broker.password || undefined,
+    clientId: `watchdog-spb-${broker.id}-${wallId}-${Date.now()}`,
+    clean: true,
+    keepalive: 30,
+    reconnectPeriod: 5000,
+    connectTimeout: 10_000,
+    will: will(),
+  });
+
+  c.on("connect", () => {
+    c.subscribe(topic("NCMD"), { qos: 1 });
+    birth();
+  });
+  c.on("close", () => {
+    if (c !== client) return;
+    // The next CONNECT is a new session: new bdSeq in its will and a new NBIRTH
+    born = false;
+    advanceBdSeq();
+    c.options.will = will();
+  });
+  c.on("message", (t, payload) => {
+    if (t === topic("NCMD")) handleNcmd(payload);
+  });
+  c.on("error", (err) => {
+    console.error("[sparkplug] Connection error:", err.message);
+  });
+
+  client = c;
+}
+
+/** Publish NDEATH and close the edge node connection */
+export function stopSparkplug(): void {
+  if (!client) return;
+  const c = client;
+  client = null;
+  born = false;
+  try {
+    if (c.connected) c.publish(topic("NDEATH"), deathPayload(), { qos: 1, retain: false });
+    c.end();
+  } catch {}
+  advanceBdSeq();
+}
@@ -12,6 +12,7 @@ import * as path from "path";
 import * as fs from "fs";
 import { publishStreamStatus, clearStreamStatus as clearMqttStreamStatus, updateMainStatus } from "./mqtt";
 import { getStreamerExe, areAssetsAvailable } from "./assets";
+import { getTurnSecrets } from "./credentials";
 
 // Streaming state
 export interface StreamingState {
@@ -49,9 +50,7 @@ export const QUALITY_PRESETS: Record<string, StreamQuality> = {
 // Fallback: Metered.ca TURN (Vu Studio account)
 // Backup: Open Relay Project (free public)
 
-const CLOUDFLARE_TURN_KEY = "432338ab38bdf2583e26996c3b9ff488";
-const CLOUDFLARE_API_KEY = "6c6bb64b5e4030fb5873f85155c19a8a4675d056a1b84a0c27476be011215c28";
-const METERED_KEY = "x5temSYro_2G91kS2O9YLshdKL5jD68CBfzgg1J7vUBe32Kq";
+// API keys live in the encrypted credentials store (credentials.ts "turn" section)
 
 // Fallback public TURN (Open Relay Project)
 const PUBLIC_TURN_SERVER = "turn:openrelayproject:openrelayproject@a.relay.metered.ca:80";
@@ -71,13 +70,15 @@ let cachedTurnCliUrl: string | null = null; // turn:user:pass@host:port for webr
  * Fetch TURN credentials from Cloudflare (primary)
  */
 async function getCloudfareTurnCredentials(): Promise<TurnCredentials | null> {
+  const { cloudflareKeyId, cloudflareApiToken } = getTurnSecrets();
+  if (!cloudflareKeyId || !cloudflareApiToken) return null;
   try {
     const res = await fetch(
-      `https://rtc.live.cloudflare.com/v1/turn/keys/${CLOUDFLARE_TURN_KEY}/credentials/generate`,
+      `https://rtc.live.cloudflare.com/v1/turn/keys/${cloudflareKeyId}/credentials/generate`,
       {
         method: "POST",
         headers: {
-          "Authorization": `Bearer ${CLOUDFLARE_API_KEY}`,
+          "Authorization": `Bearer ${cloudflareApiToken}`,
           "Content-Type": "application/json",
         },
         body: JSON.stringify({ ttl: 86400 }), // 24 hour TTL
@@ -107,9 +108,11 @@ async function getCloudfareTurnCredentials(): Promise<TurnCredentials | null> {
  * Fetch TURN credentials from Metered (fallback)
  */
 async function getMeteredTurnCredentials(): Promise<TurnCredentials | null> {
+  const { meteredApiKey } = getTurnSecrets();
+  if (!meteredApiKey) return null;
   try {
     const res = await fetch(
-      `https://vustudio.metered.live/api/v1/turn/credentials?apiKey=${METERED_KEY}`,
+      `https://vustudio.metered.live/api/v1/turn/credentials?apiKey=${encodeURIComponent(meteredApiKey)}`,
       { signal: AbortSignal.timeout(5000) }
     );
     if (!res.ok) throw new Error(`HTTP ${res.status}`);
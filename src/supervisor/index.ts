@@ -0,0 +1,82 @@
+import { WindowsSupervisor } from "./windows";
+import { LinuxSupervisor } from "./linux";
+
+// --- Process supervision backend ---
+//
+// Everything the watchdog does to other processes (find, launch, stop, inspect)
+// goes through a ProcessSupervisor, so the platform-specific tooling lives here:
+// PowerShell/taskkill on Windows, procfs and signals on Linux.
+
+/** Point-in-time view of a process, as reported by the platform */
+export interface ProcessStats {
+  pid: number;
+  name: string;
+  memoryMB: number;                // working set / resident set
+  responding: boolean;             // Windows: UI thread responds; Linux: not stopped (SIGSTOP)
+  threads: number;
+  handles: number;                 // Windows: handle count; Linux: open file descriptors
+  priority: string;                // Windows priority class names (Linux nice is mapped onto them)
+  startTime: string | null;        // ISO 8601
+  cpuTimeMs: number;               // user + kernel time
+  gpuMemoryMB: number | null;      // Windows only (GPU Process Memory counter)
+}
+
+export interface ProcessSupervisor {
+  readonly platform: string;
+  /** Running processes whose name matches. A trailing * matches any suffix; case-insensitive. */
+  find(name: string): Promise<ProcessStats[]>;
+  /** Stats for one PID, or null if it isn't running */
+  get(pid: number): Promise<ProcessStats | null>;
+  isAlive(pid: number): boolean;
+  /** Launch detached from our stdio; returns the new PID */
+  spawn(exe: string, args?: string[], cwd?: string): number;
+  /**
+   * Ask the process to exit, then kill it if it's still there after graceMs
+   * (0 kills straight away). Resolves true if it had to be killed.
+   */
+  stop(pid: number, graceMs: number): Promise<boolean>;
+  /** Resolves true once the PID is gone, false on timeout */
+  waitForExit(pid: number, timeoutMs: number): Promise<boolean>;
+  /** Open a URL or file with the desktop's default handler */
+  open(target: string): void;
+}
+
+const EXIT_POLL_MS = 250;
+
+/** Poll isAlive until the PID is gone or the timeout passes — shared by the backends */
+export async function pollForExit(supervisor: ProcessSupervisor, pid: number, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (supervisor.isAlive(pid)) {
+    if (Date.now() >= deadline) return false;
+    await new Promise((r) => setTimeout(r, EXIT_POLL_MS));
+  }
+  return true;
+}
+
+/** Signal 0 checks existence without delivering anything (EPERM still means alive) */
+export function pidExists(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err: any) {
+    return err.code === "EPERM";
+  }
+}
+
+/** Glob-ish name match used by the procfs backend: exact, or prefix with a trailing * */
+export function matchesName(pattern: string, name: string): boolean {
+  const p = pattern.toLowerCase();
+  const n = name.toLowerCase();
+  return p.endsWith("*") ? n.startsWith(p.slice(0, -1)) : p === n;
+}
+
+let supervisor: ProcessSupervisor | null = null;
+
+/** The backend for this platform, created on first use */
+export function getSupervisor(): ProcessSupervisor {
+  if (!supervisor) {
+    supervisor = process.platform === "win32" ? new WindowsSupervisor() : new LinuxSupervisor();
+    console.log(`[supervisor] Using ${supervisor.platform} process backend`);
+  }
+  return supervisor;
+}
@@ -0,0 +1,154 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { ProcessSupervisor, ProcessStats } from "./index";
+import { pollForExit, pidExists, matchesName } from "./index";
+
+const CLOCK_TICKS = 100;        // USER_HZ — 100 on every mainstream Linux build
+const PAGE_SIZE_KB = 4;
+const KILL_WAIT_MS = 5_000;
+
+/** Read a procfs file, or null if the process went away (or isn't ours to read) */
+function readProc(pid: number, file: string): string | null {
+  try {
+    return fs.readFileSync(`/proc/${pid}/${file}`, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+let bootTimeMs: number | null = null;
+
+function getBootTimeMs(): number {
+  if (bootTimeMs === null) {
+    const match = /^btime (\d+)$/m.exec(fs.readFileSync("/proc/stat", "utf-8"));
+    bootTimeMs = match ? Number(match[1]) * 1000 : 0;
+  }
+  return bootTimeMs;
+}
+
+/**
+ * The executable name: basename of argv[0], which unlike comm isn't cut off at
+ * 15 characters. Kernel threads have no cmdline and fall back to comm.
+ */
+function processName(pid: number): string | null {
+  const cmdline = readProc(pid, "cmdline");
+  const argv0 = cmdline?.split("\0")[0];
+  if (argv0) return path.basename(argv0);
+  return readProc(pid, "comm")?.trim() ?? null;
+}
+
+// Nice values mapped onto the Windows priority classes the telemetry already uses
+function priorityClass(nice: number): string {
+  if (nice <= -15) return "RealTime";
+  if (nice <= -10) return "High";
+  if (nice < 0) return "AboveNormal";
+  if (nice === 0) return "Normal";
+  if (nice < 15) return "BelowNormal";
+  return "Idle";
+}
+
+function countFds(pid: number): number {
+  try {
+    return fs.readdirSync(`/proc/${pid}/fd`).length;
+  } catch {
+    return 0;
+  }
+}
+
+function readStats(pid: number, name: string): ProcessStats | null {
+  const stat = readProc(pid, "stat");
+  if (!stat) return null;
+
+  // The comm field is parenthesised and may itself contain spaces or ')'
+  const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+  const state = fields[0];
+  if (state === "Z" || state === "X") return null;     // exited, waiting to be reaped
+  const utime = Number(fields[11]);
+  const stime = Number(fields[12]);
+  const nice = Number(fields[16]);
+  const threads = Number(fields[17]);
+  const startTicks = Number(fields[19]);
+  const rssPages = Number(fields[21]);
+
+  const bootMs = getBootTimeMs();
+  return {
+    pid,
+    name,
+    memoryMB: Math.round((rssPages * PAGE_SIZE_KB) / 1024),
+    responding: state !== "T",
+    threads,
+    handles: countFds(pid),
+    priority: priorityClass(nice),
+    startTime: bootMs > 0 ? new Date(bootMs + (startTicks * 1000) / CLOCK_TICKS).toISOString() : null,
+    cpuTimeMs: ((utime + stime) * 1000) / CLOCK_TICKS,
+    gpuMemoryMB: null,
+  };
+}
+
+/** procfs for inspection, SIGTERM then SIGKILL for stopping */
+export class LinuxSupervisor implements ProcessSupervisor {
+  readonly platform = "linux";
+
+  async find(name: string): Promise<ProcessStats[]> {
+    const results: ProcessStats[] = [];
+    for (const entry of fs.readdirSync("/proc")) {
+      if (!/^\d+$/.test(entry)) continue;
+      const pid = Number(entry);
+      if (pid === process.pid) continue;
+      const procName = processName(pid);
+      if (!procName || !matchesName(name, procName)) continue;
+      const stats = readStats(pid, procName);
+      if (stats) results.push(stats);
+    }
+    return results;
+  }
+
+  async get(pid: number): Promise<ProcessStats | null> {
+    const name = processName(pid);
+    return name ? readStats(pid, name) : null;
+  }
+
+  isAlive(pid: number): boolean {
+    // A zombie still answers signal 0 until it's reaped, but it has stopped running
+    if (!pidExists(pid)) return false;
+    const stat = readProc(pid, "stat");
+    return stat !== null && stat.charAt(stat.lastIndexOf(")") + 2) !== "Z";
+  }
+
+  spawn(exe: string, args: string[] = [], cwd?: string): number {
+    return Bun.spawn([exe, ...args], { cwd, stdio: ["ignore", "ignore", "ignore"] }).pid;
+  }
+
+  async stop(pid: number, graceMs: number): Promise<boolean> {
+    if (graceMs > 0) {
+      if (!signal(pid, "SIGTERM")) return false;
+      if (await this.waitForExit(pid, graceMs)) return false;
+    }
+    signal(pid, "SIGKILL");
+    await this.waitForExit(pid, KILL_WAIT_MS);
+    return true;
+  }
+
+  waitForExit(pid: number, timeoutMs: number): Promise<boolean> {
+    return pollForExit(this, pid, timeoutMs);
+  }
+
+  open(target: string): void {
+    try {
+      Bun.spawn(["xdg-open", target], { stdio: ["ignore", "ignore", "ignore"] });
+    } catch {
+      console.log(`[supervisor] No desktop handler (xdg-open) — open ${target} manually`);
+    }
+  }
+}
+
+/** Send a signal; false if the process is already gone */
+function signal(pid: number, sig: NodeJS.Signals): boolean {
+  try {
+    process.kill(pid, sig);
+    return true;
+  } catch (err: any) {
+    if (err.code !== "ESRCH") console.error(`[supervisor] ${sig} to PID ${pid} failed: ${err.message}`);
+    return false;
+  }
+}
@@ -0,0 +1,97 @@
+import type { ProcessSupervisor, ProcessStats } from "./index";
+import { pollForExit, pidExists } from "./index";
+import { runPowerShell } from "../powershell";
+
+// One line per process: pid|name|workingSet|responding|threads|handles|priority|startTime|cpuMs|gpuMB
+function statsScript(selector: string): string {
+  return `$procs = @(${selector} -ErrorAction SilentlyContinue)
+if ($procs.Count -eq 0) { Write-Output "none"; return }
+$samples = @()
+try { $samples = (Get-Counter '\\GPU Process Memory(*)\\Dedicated Usage' -ErrorAction SilentlyContinue).CounterSamples } catch {}
+foreach ($p in $procs) {
+  $gpuMemMB = -1
+  $match = $samples | Where-Object { $_.InstanceName -match ('pid_' + $p.Id + '_') } | Select-Object -First 1
+  if ($match) { $gpuMemMB = [math]::Round($match.CookedValue / 1MB, 0) }
+  $startTime = try { $p.StartTime.ToString('o') } catch { '' }
+  Write-Output "$($p.Id)|$($p.ProcessName)|$($p.WorkingSet64)|$($p.Responding)|$($p.Threads.Count)|$($p.HandleCount)|$($p.PriorityClass)|$startTime|$($p.TotalProcessorTime.TotalMilliseconds)|$gpuMemMB"
+}`;
+}
+
+function parseStatsLine(line: string): ProcessStats | null {
+  const parts = line.trim().split("|");
+  const pid = parseInt(parts[0], 10);
+  if (isNaN(pid)) return null;
+  const memBytes = parseInt(parts[2], 10);
+  const threads = parseInt(parts[4], 10);
+  const handles = parseInt(parts[5], 10);
+  const gpuMemMB = parseInt(parts[9], 10);
+  return {
+    pid,
+    name: parts[1],
+    memoryMB: isNaN(memBytes) ? 0 : Math.round(memBytes / (1024 * 1024)),
+    responding: parts[3] === "True",
+    threads: isNaN(threads) ? 0 : threads,
+    handles: isNaN(handles) ? 0 : handles,
+    priority: parts[6] || "Normal",
+    startTime: parts[7] || null,
+    cpuTimeMs: parseFloat(parts[8]) || 0,
+    gpuMemoryMB: gpuMemMB >= 0 ? gpuMemMB : null,
+  };
+}
+
+const KILL_WAIT_MS = 5_000;
+
+async function taskkill(pid: number, force: boolean): Promise<void> {
+  const args = ["taskkill", ...(force ? ["/F"] : []), "/PID", String(pid)];
+  await Bun.spawn(args, { stdio: ["ignore", "ignore", "ignore"] }).exited;
+}
+
+/** Get-Process for inspection, taskkill for stopping (WM_CLOSE first, then /F) */
+export class WindowsSupervisor implements ProcessSupervisor {
+  readonly platform = "windows";
+
+  async find(name: string): Promise<ProcessStats[]> {
+    try {
+      // Get-Process -Name already takes wildcards and ignores case
+      const output = await runPowerShell(statsScript(`Get-Process -Name '${name.replace(/'/g, "''")}'`));
+      return output.split("\n").map(parseStatsLine).filter((s): s is ProcessStats => s !== null);
+    } catch {
+      return [];
+    }
+  }
+
+  async get(pid: number): Promise<ProcessStats | null> {
+    try {
+      const output = await runPowerShell(statsScript(`Get-Process -Id ${Math.trunc(pid)}`));
+      return parseStatsLine(output.split("\n")[0] ?? "");
+    } catch {
+      return null;
+    }
+  }
+
+  isAlive(pid: number): boolean {
+    return pidExists(pid);
+  }
+
+  spawn(exe: string, args: string[] = [], cwd?: string): number {
+    return Bun.spawn([exe, ...args], { cwd, stdio: ["ignore", "ignore", "ignore"] }).pid;
+  }
+
+  async stop(pid: number, graceMs: number): Promise<boolean> {
+    if (graceMs > 0) {
+      await taskkill(pid, false);
+      if (await this.waitForExit(pid, graceMs)) return false;
+    }
+    await taskkill(pid, true);
+    await this.waitForExit(pid, KILL_WAIT_MS);
+    return true;
+  }
+
+  waitForExit(pid: number, timeoutMs: number): Promise<boolean> {
+    return pollForExit(this, pid, timeoutMs);
+  }
+
+  open(target: string): void {
+    Bun.spawn(["cmd", "/c", "start", target], { stdio: ["ignore", "ignore", "ignore"] });
+  }
+}
@@ -4,13 +4,12 @@
  */
 
 import { showConsole } from "./console";
+import { getSupervisor } from "./supervisor";
 
 const DASHBOARD_URL = "http://localhost:3200";
 
 function openDashboard() {
-  Bun.spawn(["cmd", "/c", "start", DASHBOARD_URL], {
-    stdio: ["ignore", "ignore", "ignore"],
-  });
+  getSupervisor().open(DASHBOARD_URL);
 }
 
 function buildPowerShellScript(wallId: string, exePath: string): string {
@@ -4,6 +4,18 @@ export interface EventLogMetrics {
   lastTime: string | null;
 }
 
+export interface VolumeMetrics {
+  mount: string;                // drive letter ("C:") or mount point ("/")
+  label: string | null;
+  fsType: string | null;
+  totalMB: number;
+  usedMB: number;
+  freeMB: number;
+  percent: number;
+  readMBps: number | null;      // null until two I/O samples are in
+  writeMBps: number | null;
+}
+
 export interface SystemMetrics {
   cpuUsage: number;
   cpuModel: string;
@@ -16,11 +28,13 @@ export interface SystemMetrics {
   gpuMemUsedMB: number | null;
   gpuMemTotalMB: number | null;
   gpuTemp: number | null;
-  diskTotalMB: number;
+  diskTotalMB: number;          // all volumes combined
   diskUsedMB: number;
   diskPercent: number;
   diskReadMBps: number;
   diskWriteMBps: number;
+  volumes: VolumeMetrics[];
+  watchedVolumes: Record<string, VolumeMetrics | null>;   // config WATCHED_VOLUMES name → the volume holding that path
   thermalThrottling: boolean;
   pendingUpdates: number;
   eventLog: EventLogMetrics;
@@ -69,12 +83,46 @@ export interface AppMetrics {
   logs: LogMetrics;
 }
 
+/** The persistent PowerShell helper used for metrics queries (Windows) */
+export interface HelperMetrics {
+  running: boolean;
+  pid: number | null;
+  restarts: number;
+  queries: number;
+  timeouts: number;
+  failures: number;
+  queued: number;
+  avgQueryMs: number | null;
+  cpuPercent: number;
+  memoryMB: number | null;
+}
+
+/** The watchdog's own collection overhead */
+export interface WatchdogMetrics {
+  cpuPercent: number;
+  memoryMB: number;
+  helper: HelperMetrics | null;     // null where there's no helper (Linux)
+}
+
+/** Freshness of one background collector (see collectors/status.ts) */
+export interface CollectorStatus {
+  collectedAt: number | null;   // last successful refresh
+  applicable: boolean;          // false while the metric doesn't exist on this machine (no GPU, no package manager)
+  intervalMs: number;
+  errors: number;               // consecutive failures since then
+  totalErrors: number;
+  lastError: string | null;
+  stale: boolean;               // no success within COLLECTOR_STALE_INTERVALS intervals
+}
+
 export interface TelemetryPayload {
   timestamp: number;
   wallId: string;
   system: SystemMetrics;
   network: NetworkMetrics;
   app: AppMetrics;
+  watchdog: WatchdogMetrics;
+  collectors: Record<string, CollectorStatus>;
 }
 
 // --- Operational Mode ---
@@ -91,6 +139,8 @@ export interface HealthPayload {
   wallId: string;
   mode: OperationalMode;
   conditions: string[];
+  flapping: string[];        // conditions currently suppressed for flapping
+  suppressed: string[];      // conditions held inactive by a maintenance window
   system: { cpu: number; mem: number; gpu: number | null; disk: number };
   network: { internet: boolean; latencyMs: number | null; localServer: boolean; peers: number };
   app: { vuos: "RUNNING" | "STOPPED"; server: "RUNNING" | "STOPPED"; lockHealthy: boolean; recentErrors: number };
@@ -121,7 +171,19 @@ export type CommandType =
   | "REQUEST_CONFIG"
   | "START_STREAM"
   | "STOP_STREAM"
-  | "SET_STREAM_QUALITY";
+  | "SET_STREAM_QUALITY"
+  | "START_REMOTE_VIEWING"
+  | "STOP_REMOTE_VIEWING"
+  | "LIST_COMMANDS"
+  | "CANCEL_COMMAND"
+  | "SCHEDULE_ADD"
+  | "SCHEDULE_REMOVE"
+  | "SCHEDULE_LIST"
+  | "LEASE_ACQUIRE"
+  | "LEASE_RENEW"
+  | "LEASE_RELEASE"
+  | "LEASE_REVOKE"
+  | "TEST_NOTIFICATION";
 
 export interface CommandPayload {
   schema: "vu.watchdog.command.v1";
@@ -130,9 +192,10 @@ export interface CommandPayload {
   ttlMs: number;
   type: CommandType;
   args: Record<string, any>;
+  sig?: string;   // base64 signature by the sender's registered key (see signing.ts)
 }
 
-export type AckStatus = "RECEIVED" | "ACCEPTED" | "APPLIED" | "REJECTED" | "FAILED" | "EXPIRED";
+export type AckStatus = "RECEIVED" | "ACCEPTED" | "PROGRESS" | "APPLIED" | "REJECTED" | "FAILED" | "EXPIRED" | "CANCELLED";
 
 export interface AckPayload {
   schema: "vu.watchdog.ack.v1";
@@ -148,6 +211,7 @@ export interface AckPayload {
 export interface LeasePayload {
   schema: "vu.watchdog.lease.v1";
   ts: number;
-  owner: string;
+  owner: string | null;      // null when no lease is held
   expiresTs: number;
+  waiting: string[];         // clients refused while the lease was held, oldest first
 }
@@ -1,4 +1,5 @@
-import type { MqttClient, IClientPublishOptions } from "mqtt";
+import mqtt, { type MqttClient, type IClientPublishOptions } from "mqtt";
+import type { BrokerConfig } from "./credentials";
 
 // --- UNS Configuration ---
 
@@ -9,10 +10,12 @@ interface UnsConfig {
   mirrorTelemetry: boolean;
 }
 
+const DEFAULT_MIRROR = ["presence", "health", "event", "command", "ack", "lease", "config", "stream", "telemetry"];
+
 const config: UnsConfig = {
   enabled: (process.env.UNS_ENABLED || "false").toLowerCase() === "true",
   prefix: process.env.UNS_PREFIX || "vu/v1/asset/wall",
-  mirror: ["presence", "health", "event", "command", "ack", "lease", "config"],
+  mirror: process.env.UNS_MIRROR ? process.env.UNS_MIRROR.split(",").map((s) => s.trim()).filter(Boolean) : DEFAULT_MIRROR,
   mirrorTelemetry: (process.env.UNS_MIRROR_TELEMETRY || "false").toLowerCase() === "true",
 };
 
@@ -26,8 +29,15 @@ const TOPIC_MAP: Record<string, string> = {
   "config": "watchdog/config",
   "lease": "watchdog/control/lease",
   "telemetry": "watchdog/telemetry/system",
+  "stream/status": "watchdog/stream/status",
 };
 
+function unsTopic(wallId: string, unsSuffix: string): string {
+  return `${config.prefix}/${wallId}/${unsSuffix}`;
+}
+
+let lastPresence: string | null = null;   // latest status payload, restored by the presence client
+
 /**
  * Mirror a publish to the UNS shadow tree.
  * Called after every MQTT publish. No-op if UNS is disabled.
@@ -46,8 +56,9 @@ export function mirrorPublish(
   if (!watchdogTopic.startsWith(prefix)) return;
   const suffix = watchdogTopic.slice(prefix.length);
 
-  // Check if telemetry mirroring is enabled
-  if (suffix === "telemetry" && !config.mirrorTelemetry) return;
+  // Telemetry (every 2s) is opt-in, and UNS_MIRROR_TELEMETRY is its only switch
+  const isTelemetry = suffix === "telemetry";
+  if (isTelemetry && !config.mirrorTelemetry) return;
 
   // Check if this suffix has a UNS mapping
   let unsSuffix: string | undefined;
@@ -77,14 +88,95 @@ export function mirrorPublish(
   // Check if this topic type is in the mirror list
   const topicType = suffix.split("/")[0]; // e.g. "status", "health", "command"
   const mirrorKey = topicType === "status" ? "presence" : topicType;
-  if (!config.mirror.includes(mirrorKey) && !suffix.startsWith("command/") && !suffix.startsWith("ack/")) {
+  if (!isTelemetry && !config.mirror.includes(mirrorKey) && !suffix.startsWith("command/") && !suffix.startsWith("ack/")) {
     return;
   }
 
-  const unsTopic = `${config.prefix}/${wallId}/${unsSuffix}`;
-  client.publish(unsTopic, payload, opts);
+  if (suffix === "status") lastPresence = payload;
+  client.publish(unsTopic(wallId, unsSuffix), payload, opts);
 }
 
 export function isUnsEnabled(): boolean {
   return config.enabled;
 }
+
+// --- Inbound commands ---
+
+/** Subscribe to watchdog/command/+ under the UNS tree */
+export function subscribeUnsCommands(client: MqttClient, wallId: string): void {
+  if (!config.enabled) return;
+  client.subscribe(unsTopic(wallId, "watchdog/command/+"), { qos: 1 });
+}
+
+/** Map a UNS command topic to its watchdog equivalent; other topics pass through */
+export function toWatchdogTopic(topic: string, wallId: string): string {
+  const unsCommandPrefix = unsTopic(wallId, "watchdog/command/");
+  if (!config.enabled || !topic.startsWith(unsCommandPrefix)) return topic;
+  return `watchdog/${wallId}/command/${topic.slice(unsCommandPrefix.length)}`;
+}
+
+// --- Presence (LWT) ---
+
+// A connection can have only one will, so the UNS presence topic gets its own
+// small connection to the same broker whose will marks the wall offline there.
+let presenceClient: MqttClient | null = null;
+
+/** Open the UNS presence connection for the active broker */
+export function startUnsPresence(broker: BrokerConfig, wallId: string): void {
+  if (!config.enabled || !config.mirror.includes("presence")) return;
+  stopUnsPresence();
+
+  const presenceTopic = unsTopic(wallId, TOPIC_MAP.status);
+  const statusTopic = `watchdog/${wallId}/status`;
+  const client = mqtt.connect(broker.url, {
+    username: broker.username || undefined,
+    password: broker.password || undefined,
+    clientId: `watchdog-uns-${broker.id}-${wallId}-${Date.now()}`,
+    clean: true,
+    keepalive: 30,
+    reconnectPeriod: 5000,
+    connectTimeout: 10_000,
+    will: {
+      topic: presenceTopic,
+      payload: Buffer.from(
+        JSON.stringify({
+          status: "offline",
+          wallId,
+          timestamp: Date.now(),
+          stream: { status: "stopped" },
+        })
+      ),
+      qos: 1,
+      retain: true,
+    },
+  });
+
+  client.on("connect", () => {
+    // Undo our own will after a reconnect, and follow the main connection's will
+    if (lastPresence) client.publish(presenceTopic, lastPresence, { qos: 1, retain: true });
+    client.subscribe(statusTopic, { qos: 1 });
+  });
+  client.on("message", (topic, payload) => {
+    if (topic !== statusTopic) return;
+    try {
+      if (JSON.parse(payload.toString()).status !== "offline") return;
+    } catch {
+      return;
+    }
+    lastPresence = payload.toString();
+    client.publish(presenceTopic, payload, { qos: 1, retain: true });
+  });
+  client.on("error", (err) => {
+    console.error("[uns] Presence connection error:", err.message);
+  });
+
+  presenceClient = client;
+}
+
+export function stopUnsPresence(): void {
+  if (!presenceClient) return;
+  try {
+    presenceClient.end(true);
+  } catch {}
+  presenceClient = null;
+}
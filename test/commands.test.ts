@@ -0,0 +1,77 @@
+import { describe, test, expect } from "bun:test";
+import { CommandProcessor, type ArgSchema } from "../src/commands";
+import type { LeaseManager } from "../src/lease";
+import type { WatchdogEventEmitter } from "../src/events";
+import type { CommandType } from "../src/types";
+
+// validate() only reads the registry, so the lease manager and event emitter are never touched
+function processorWith(args: ArgSchema): CommandProcessor {
+  const processor = new CommandProcessor("wall-test", {} as LeaseManager, {} as WatchdogEventEmitter, () => {});
+  processor.registerCommand({
+    type: "SET_STREAM_QUALITY",
+    description: "test",
+    requiresLease: false,
+    localBypass: true,
+    args,
+    handler: async () => ({ message: "", details: {} }),
+  });
+  return processor;
+}
+
+describe("argument validation", () => {
+  const processor = processorWith({
+    preset: { type: "string", required: true, enum: ["low", "high"] },
+    fps: { type: "integer", min: 1, max: 60 },
+    bitrate: { type: "number", min: 0 },
+    audio: { type: "boolean" },
+    options: { type: "object" },
+    tags: { type: "array" },
+  });
+  const validate = (args: any) => processor.validate("SET_STREAM_QUALITY", args);
+
+  test("accepts valid args and skips missing optional ones", () => {
+    expect(validate({ preset: "low" })).toEqual([]);
+    expect(validate({ preset: "high", fps: 60, bitrate: 2.5, audio: false, options: {}, tags: [] })).toEqual([]);
+    // null counts as missing
+    expect(validate({ preset: "low", fps: null })).toEqual([]);
+  });
+
+  test("args must be an object", () => {
+    expect(validate([])).toEqual([{ field: "args", message: "must be an object" }]);
+    expect(validate("low")).toEqual([{ field: "args", message: "must be an object" }]);
+    expect(validate(undefined)).toEqual([{ field: "preset", message: "is required" }]);
+  });
+
+  test("types", () => {
+    expect(validate({ preset: "low", fps: 2.5, bitrate: "1", audio: 1, options: [], tags: {} })).toEqual([
+      { field: "fps", message: "must be an integer" },
+      { field: "bitrate", message: "must be a number" },
+      { field: "audio", message: "must be a boolean" },
+      { field: "options", message: "must be an object" },
+      { field: "tags", message: "must be an array" },
+    ]);
+    expect(validate({ preset: "low", bitrate: Infinity })).toEqual([{ field: "bitrate", message: "must be a number" }]);
+  });
+
+  test("bounds, enums and unknown arguments", () => {
+    expect(validate({ preset: "medium", fps: 0, bitrate: -1, extra: true })).toEqual([
+      { field: "extra", message: "unknown argument" },
+      { field: "preset", message: "must be one of low, high" },
+      { field: "fps", message: "must be >= 1" },
+      { field: "bitrate", message: "must be >= 0" },
+    ]);
+    expect(validate({ preset: "low", fps: 61 })).toEqual([{ field: "fps", message: "must be <= 60" }]);
+  });
+
+  test("enums resolved at validation time", () => {
+    let types: CommandType[] = ["START_VUOS"];
+    const dynamic = processorWith({ command: { type: "string", enum: () => types } });
+    expect(dynamic.validate("SET_STREAM_QUALITY", { command: "STOP_VUOS" })).toEqual([{ field: "command", message: "must be one of START_VUOS" }]);
+    types = ["START_VUOS", "STOP_VUOS"];
+    expect(dynamic.validate("SET_STREAM_QUALITY", { command: "STOP_VUOS" })).toEqual([]);
+  });
+
+  test("unknown command", () => {
+    expect(processor.validate("START_VUOS", {})).toEqual([{ field: "type", message: "unknown command START_VUOS" }]);
+  });
+});
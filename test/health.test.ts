@@ -0,0 +1,103 @@
+import { describe, test, expect, beforeAll, afterAll, afterEach, setSystemTime } from "bun:test";
+import * as fs from "fs";
+import { RULES_PATH } from "../src/config";
+import { loadRules } from "../src/rules";
+import { evaluateConditions, computeMode, type ConditionState } from "../src/health";
+import type { TelemetryPayload } from "../src/types";
+
+// Test conditions read a flat `test` section, so the built-in ones can be ignored
+const RULES = {
+  warmupSec: 0,
+  conditions: [
+    { id: "T_HYSTERESIS", level: "DEGRADED", when: "test.value >= 90", clearWhen: "test.value < 80", flapThreshold: 0 },
+    { id: "T_DEBOUNCE", level: "CRITICAL", when: "test.down", debounceMs: 10_000, clearDebounceMs: 5_000, flapThreshold: 0 },
+    { id: "T_FLAP", level: "DEGRADED", when: "test.flap", flapThreshold: 4, flapWindowMs: 60_000 },
+  ],
+};
+
+let now = new Date("2026-01-01T00:00:00Z").getTime();
+
+function evaluate(fields: Record<string, any>, advanceMs = 0): Record<string, ConditionState> {
+  now += advanceMs;
+  setSystemTime(now);
+  const states = evaluateConditions({ test: fields } as unknown as TelemetryPayload);
+  return Object.fromEntries(states.map((s) => [s.id, s]));
+}
+
+beforeAll(() => {
+  fs.writeFileSync(RULES_PATH, JSON.stringify(RULES));
+  expect(loadRules().errors).toEqual([]);
+});
+
+afterAll(() => {
+  fs.rmSync(RULES_PATH, { force: true });
+  loadRules();
+});
+
+afterEach(() => setSystemTime());
+
+describe("hysteresis", () => {
+  test("stays active inside the band until clearWhen holds", () => {
+    expect(evaluate({ value: 85 }).T_HYSTERESIS.active).toBe(false);
+    expect(evaluate({ value: 92 }).T_HYSTERESIS.active).toBe(true);
+    expect(evaluate({ value: 85 }).T_HYSTERESIS.active).toBe(true);
+    expect(evaluate({ value: 79 }).T_HYSTERESIS.active).toBe(false);
+    expect(evaluate({ value: 85 }).T_HYSTERESIS.active).toBe(false);
+  });
+});
+
+describe("debounce", () => {
+  test("activates only once `when` has held for debounceMs", () => {
+    expect(evaluate({ down: true }).T_DEBOUNCE.active).toBe(false);
+    expect(evaluate({ down: true }, 9_000).T_DEBOUNCE.active).toBe(false);
+    expect(evaluate({ down: true }, 1_000).T_DEBOUNCE.active).toBe(true);
+  });
+
+  test("clears only once the clear side has held for clearDebounceMs", () => {
+    expect(evaluate({ down: false }, 1_000).T_DEBOUNCE.active).toBe(true);
+    expect(evaluate({ down: false }, 4_000).T_DEBOUNCE.active).toBe(true);
+    // A blip back to triggered restarts the clear debounce
+    expect(evaluate({ down: true }, 500).T_DEBOUNCE.clearingSince).toBeNull();
+    expect(evaluate({ down: false }, 500).T_DEBOUNCE.active).toBe(true);
+    expect(evaluate({ down: false }, 4_999).T_DEBOUNCE.active).toBe(true);
+    expect(evaluate({ down: false }, 1).T_DEBOUNCE.active).toBe(false);
+  });
+
+  test("a trigger shorter than debounceMs never activates", () => {
+    evaluate({ down: true }, 1_000);
+    evaluate({ down: false }, 9_000);
+    expect(evaluate({ down: true }, 2_000).T_DEBOUNCE.active).toBe(false);
+    expect(evaluate({ down: true }, 9_000).T_DEBOUNCE.active).toBe(false);
+    expect(evaluate({ down: false }, 1_000).T_DEBOUNCE.active).toBe(false);
+  });
+});
+
+describe("flap detection", () => {
+  test("flapping at flapThreshold transitions in the window, until the window is quiet", () => {
+    let state = evaluate({ flap: true }, 1_000).T_FLAP;
+    expect(state.transitions).toBe(1);
+    evaluate({ flap: false }, 1_000);
+    evaluate({ flap: true }, 1_000);
+    expect(evaluate({ flap: true }, 1_000).T_FLAP.flapping).toBe(false);
+
+    state = evaluate({ flap: false }, 1_000).T_FLAP;
+    expect(state.transitions).toBe(4);
+    expect(state.flapping).toBe(true);
+
+    // Still flapping while any transition is inside the window
+    expect(evaluate({ flap: false }, 57_000).T_FLAP.flapping).toBe(true);
+    state = evaluate({ flap: false }, 5_000).T_FLAP;
+    expect(state.transitions).toBe(0);
+    expect(state.flapping).toBe(false);
+  });
+});
+
+describe("computeMode", () => {
+  const condition = (level: "DEGRADED" | "CRITICAL", active: boolean) => ({ level, active }) as ConditionState;
+
+  test("the worst active level wins", () => {
+    expect(computeMode([])).toBe("READY");
+    expect(computeMode([condition("DEGRADED", true), condition("CRITICAL", false)])).toBe("DEGRADED");
+    expect(computeMode([condition("DEGRADED", true), condition("CRITICAL", true)])).toBe("CRITICAL");
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, test, expect, beforeEach, afterEach, setSystemTime } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  LinuxSystemBackend,
+  parseMounts,
+  parseDiskstats,
+  parseJournal,
+  parseAptSimulation,
+  parseDnfCheckUpdate,
+} from "../src/collectors/system/linux";
+
+const TREE = path.join(import.meta.dir, "fixtures", "linux-tree");
+const OUTPUT = path.join(import.meta.dir, "fixtures", "linux-output");
+
+const read = (file: string) => fs.readFileSync(file, "utf-8");
+
+function backendFor(root: string): LinuxSystemBackend {
+  return new LinuxSystemBackend({
+    procRoot: path.join(root, "proc"),
+    sysRoot: path.join(root, "sys"),
+    devRoot: path.join(root, "dev"),
+    rootDir: path.join(root, "root"),
+  });
+}
+
+// Symlinks and udev's backslash-escaped label names can't be checked out on Windows,
+// so the /dev links only exist in the scratch copy, and the tests using them skip there
+const WINDOWS = process.platform === "win32";
+const DEV_LINKS: Record<string, string> = {
+  "mapper/vg-data": "../dm-0",
+  "disk/by-label/DATA": "../../dm-0",
+  "disk/by-label/my\\x20disk": "../../sda1",
+};
+
+// Tests that change counters or temperatures, or need the /dev links, work on a copy of the tree
+let scratch: string;
+
+beforeEach(() => {
+  scratch = fs.mkdtempSync(path.join(os.tmpdir(), "watchdog-linux-"));
+  fs.cpSync(TREE, scratch, { recursive: true });
+  if (WINDOWS) return;
+  for (const [link, target] of Object.entries(DEV_LINKS)) {
+    const file = path.join(scratch, "dev", link);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.symlinkSync(target, file);
+  }
+});
+
+afterEach(() => {
+  setSystemTime();
+  fs.rmSync(scratch, { recursive: true, force: true });
+});
+
+// --- Parsers ---
+
+describe("parseMounts", () => {
+  test("keeps the first mount of each block device and unescapes mount points", () => {
+    expect(parseMounts(read(path.join(TREE, "proc", "mounts")))).toEqual([
+      { device: "/dev/sda2", mountPoint: "/", fsType: "ext4" },
+      { device: "/dev/mapper/vg-data", mountPoint: "/srv", fsType: "xfs" },
+      { device: "/dev/sda1", mountPoint: "/media/my disk", fsType: "vfat" },
+      { device: "/dev/sdc1", mountPoint: "/mnt/gone", fsType: "ext4" },
+    ]);
+  });
+
+  test("ignores blank and truncated lines", () => {
+    expect(parseMounts("\n\nproc\n")).toEqual([]);
+  });
+});
+
+describe("parseDiskstats", () => {
+  test("maps each device to sectors read and written", () => {
+    const stats = parseDiskstats(read(path.join(TREE, "proc", "diskstats")));
+    expect(stats.size).toBe(5);
+    expect(stats.get("sda")).toEqual([204800, 409600]);
+    expect(stats.get("sda1")).toEqual([2048, 4096]);
+    expect(stats.get("dm-0")).toEqual([2000, 8000]);
+  });
+
+  test("skips lines with too few fields", () => {
+    expect(parseDiskstats("   8       0 sda 1 2 3\n").size).toBe(0);
+  });
+});
+
+describe("parseJournal", () => {
+  test("reports the newest entry and decodes byte-array messages", () => {
+    const log = parseJournal(read(path.join(OUTPUT, "journalctl.jsonl")));
+    expect(log.count).toBe(3);
+    expect(log.lastMessage).toBe("VuOS crashed�");
+    expect(log.lastTime).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/);
+  });
+
+  test("blank messages and empty output", () => {
+    expect(parseJournal('{"__REALTIME_TIMESTAMP":"x","MESSAGE":"   "}')).toEqual({ count: 1, lastMessage: null, lastTime: null });
+    expect(parseJournal("")).toEqual({ count: 0, lastMessage: null, lastTime: null });
+  });
+
+  test("caps the count like Get-WinEvent -MaxEvents", () => {
+    const lines = Array.from({ length: 15 }, (_, i) => JSON.stringify({ __REALTIME_TIMESTAMP: String(i), MESSAGE: `m${i}` }));
+    expect(parseJournal(lines.join("\n")).count).toBe(10);
+  });
+});
+
+describe("parseAptSimulation", () => {
+  test("counts Inst lines only", () => {
+    expect(parseAptSimulation(read(path.join(OUTPUT, "apt-get-upgrade.txt")))).toBe(3);
+    expect(parseAptSimulation("0 upgraded, 0 newly installed, 0 to remove and 0 not upgraded.\n")).toBe(0);
+  });
+});
+
+describe("parseDnfCheckUpdate", () => {
+  test("counts package lines before the obsoleting section", () => {
+    expect(parseDnfCheckUpdate(read(path.join(OUTPUT, "dnf-check-update.txt")))).toBe(3);
+    expect(parseDnfCheckUpdate("")).toBe(0);
+  });
+});
+
+// --- Backend against the fixture tree ---
+
+describe("gpuFromDrm", () => {
+  test("prefers the card reporting VRAM", () => {
+    expect(backendFor(TREE).gpuFromDrm()).toEqual({
+      name: "AMD 1002:73BF (amdgpu)",
+      usage: 37,
+      memUsedMB: 1024,
+      memTotalMB: 16384,
+      temp: 61,
+    });
+  });
+
+  test("falls back to a card without VRAM counters", () => {
+    fs.rmSync(path.join(scratch, "sys", "class", "drm", "card1"), { recursive: true });
+    expect(backendFor(scratch).gpuFromDrm()).toEqual({
+      name: "Intel 8086:9BC4 (i915)",
+      usage: null,
+      memUsedMB: null,
+      memTotalMB: null,
+      temp: 58,
+    });
+  });
+
+  test("null without DRM cards", () => {
+    fs.rmSync(path.join(scratch, "sys", "class", "drm"), { recursive: true });
+    expect(backendFor(scratch).gpuFromDrm()).toBeNull();
+  });
+});
+
+describe("cpuThrottled", () => {
+  const countFile = (cpu: string) => path.join(scratch, "sys", "devices", "system", "cpu", cpu, "thermal_throttle", "package_throttle_count");
+
+  test("below the passive trip point, ignoring active trips", async () => {
+    expect(await backendFor(TREE).cpuThrottled()).toBe(false);
+  });
+
+  test("at or above the passive trip point", async () => {
+    fs.writeFileSync(path.join(scratch, "sys", "class", "thermal", "thermal_zone0", "temp"), "90000\n");
+    expect(await backendFor(scratch).cpuThrottled()).toBe(true);
+  });
+
+  test("when the package throttle count rises between polls", async () => {
+    const backend = backendFor(scratch);
+    expect(await backend.cpuThrottled()).toBe(false);
+    expect(await backend.cpuThrottled()).toBe(false);
+    fs.writeFileSync(countFile("cpu1"), "5\n");
+    expect(await backend.cpuThrottled()).toBe(true);
+    expect(await backend.cpuThrottled()).toBe(false);
+  });
+});
+
+describe("volumes", () => {
+  test.skipIf(WINDOWS)("resolves mount points under rootDir and labels through /dev symlinks", async () => {
+    const volumes = await backendFor(scratch).volumes();
+    expect(volumes?.map((v) => [v.mount, v.label, v.fsType])).toEqual([
+      ["/", null, "ext4"],
+      ["/srv", "DATA", "xfs"],
+      ["/media/my disk", "my disk", "vfat"],
+    ]);
+    for (const v of volumes ?? []) {
+      expect(v.totalBytes).toBeGreaterThan(0);
+      expect(v.freeBytes).toBeLessThanOrEqual(v.totalBytes);
+    }
+  });
+
+  test("null without a mount table", async () => {
+    fs.rmSync(path.join(scratch, "proc", "mounts"));
+    expect(await backendFor(scratch).volumes()).toBeNull();
+  });
+});
+
+describe("diskIO", () => {
+  test.skipIf(WINDOWS)("rates from two samples, whole disks in the total and partitions per mount", async () => {
+    const backend = backendFor(scratch);
+    setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    expect(await backend.diskIO()).toBeNull();
+
+    // 2048 sectors = 1 MB; sda read 4 MB and wrote 2 MB over two seconds, all of it on sda2 except 1 MB written to sda1
+    fs.writeFileSync(path.join(scratch, "proc", "diskstats"), [
+      "   7       0 loop0 50 0 4896 10 0 0 0 0 0 10 10 0 0 0 0",
+      "   8       0 sda 3100 10 212992 900 1100 20 413696 1200 0 1500 2100 0 0 0 0",
+      "   8       1 sda1 1000 0 2048 100 200 0 6144 50 0 100 150 0 0 0 0",
+      "   8       2 sda2 2100 10 208192 800 1000 20 402048 1150 0 1400 1950 0 0 0 0",
+      " 253       0 dm-0 600 0 6096 50 100 0 8000 60 0 80 110 0 0 0 0",
+    ].join("\n"));
+    setSystemTime(new Date("2026-01-01T00:00:02Z"));
+
+    expect(await backend.diskIO()).toEqual({
+      readMBps: 2,
+      writeMBps: 1,
+      volumes: {
+        "/": { readMBps: 2, writeMBps: 0.5 },
+        "/srv": { readMBps: 1, writeMBps: 0 },
+        "/media/my disk": { readMBps: 0, writeMBps: 0.5 },
+      },
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, test, expect, afterEach, setSystemTime } from "bun:test";
+import { admit } from "../src/notifications";
+import type { NotificationChannel } from "../src/credentials";
+import type { EventPayload, EventSeverity } from "../src/types";
+
+// Throttle state is per channel id and lives in the module, so every test gets its own channel
+let channelCount = 0;
+
+function channel(fields: Partial<NotificationChannel> = {}): NotificationChannel {
+  return { id: `test-${++channelCount}`, kind: "webhook", url: "", routingKey: "", minSeverity: "INFO", types: [], throttleSec: 300, ...fields };
+}
+
+function event(type: string, severity: EventSeverity = "WARN"): EventPayload {
+  return { schema: "vu.watchdog.event.v1", ts: Date.now(), wallId: "wall-test", type, severity, details: {} };
+}
+
+let now = new Date("2026-01-01T00:00:00Z").getTime();
+
+function advance(ms: number): void {
+  now += ms;
+  setSystemTime(now);
+}
+
+afterEach(() => setSystemTime());
+
+describe("admit", () => {
+  test("holds back repeats of a type within throttleSec and reports them with the next delivery", () => {
+    const ch = channel({ throttleSec: 60 });
+    advance(0);
+    expect(admit(ch, event("VUOS_CRASHED"))).toBe(0);
+    advance(10_000);
+    expect(admit(ch, event("VUOS_CRASHED"))).toBeNull();
+    expect(admit(ch, event("VUOS_CRASHED"))).toBeNull();
+    // Other types have their own window
+    expect(admit(ch, event("VUOS_STARTED"))).toBe(0);
+    advance(50_000);
+    expect(admit(ch, event("VUOS_CRASHED"))).toBe(2);
+    advance(1_000);
+    expect(admit(ch, event("VUOS_CRASHED"))).toBeNull();
+  });
+
+  test("throttleSec 0 delivers every event", () => {
+    const ch = channel({ throttleSec: 0 });
+    advance(0);
+    expect(admit(ch, event("VUOS_CRASHED"))).toBe(0);
+    expect(admit(ch, event("VUOS_CRASHED"))).toBe(0);
+  });
+
+  test("severity and type filters", () => {
+    const ch = channel({ minSeverity: "ERROR", types: ["VUOS_*", "DISK_HIGH_ON"] });
+    expect(admit(ch, event("VUOS_CRASHED", "WARN"))).toBeNull();
+    expect(admit(ch, event("VUOS_CRASHED", "ERROR"))).toBe(0);
+    expect(admit(ch, event("DISK_HIGH_ON", "CRITICAL"))).toBe(0);
+    expect(admit(ch, event("DISK_HIGH_REMINDER", "CRITICAL"))).toBeNull();
+    expect(admit(ch, event("LEASE_ACQUIRED", "CRITICAL"))).toBeNull();
+  });
+
+  test("an _OFF always reaches a channel told of the _ON, and only once", () => {
+    const ch = channel({ minSeverity: "WARN", types: ["FPS_LOW_ON"] });
+    expect(admit(ch, event("FPS_LOW_OFF", "INFO"))).toBeNull();
+    expect(admit(ch, event("FPS_LOW_ON"))).toBe(0);
+    expect(admit(ch, event("FPS_LOW_OFF", "INFO"))).toBe(0);
+    expect(admit(ch, event("FPS_LOW_OFF", "INFO"))).toBeNull();
+  });
+
+  test("an _ON that reopens a problem bypasses the throttle, a repeated _ON doesn't", () => {
+    const ch = channel({ throttleSec: 300 });
+    advance(0);
+    expect(admit(ch, event("FPS_LOW_ON"))).toBe(0);
+    advance(1_000);
+    expect(admit(ch, event("FPS_LOW_ON"))).toBeNull();
+    expect(admit(ch, event("FPS_LOW_OFF", "INFO"))).toBe(0);
+    advance(1_000);
+    expect(admit(ch, event("FPS_LOW_ON"))).toBe(1);
+    // The reopened problem's _OFF goes out too, inside the _OFF's throttle window
+    expect(admit(ch, event("FPS_LOW_OFF", "INFO"))).toBe(0);
+  });
+});
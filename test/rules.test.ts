@@ -0,0 +1,138 @@
+import { describe, test, expect } from "bun:test";
+import type { TelemetryPayload } from "../src/types";
+import { buildRules, compileExpression } from "../src/rules";
+
+// Only the fields an expression reads need to be there; missing paths resolve to undefined
+const telemetry = (fields: Record<string, any>) => fields as unknown as TelemetryPayload;
+
+function builtin(id: string) {
+  const condition = buildRules({}).snapshot.conditions.find((c) => c.id === id);
+  if (!condition) throw new Error(`no built-in condition ${id}`);
+  return condition;
+}
+
+describe("built-in rules", () => {
+  test("all compile", () => {
+    expect(buildRules({}).errors).toEqual([]);
+  });
+
+  test("GPU_PROBE_FAILED only where the GPU collector applies", () => {
+    const gpu = builtin("GPU_PROBE_FAILED");
+    const collectors = (applicable: boolean) => ({ gpu: { applicable, stale: false } });
+
+    expect(gpu.evaluate(telemetry({ system: { gpuName: null }, collectors: collectors(true) }))).toBe(true);
+    expect(gpu.evaluate(telemetry({ system: { gpuName: "NVIDIA RTX A4000" }, collectors: collectors(true) }))).toBe(false);
+    expect(gpu.evaluate(telemetry({ system: { gpuName: null }, collectors: collectors(false) }))).toBe(false);
+  });
+});
+
+describe("compileExpression", () => {
+  const evaluate = (src: string, fields: Record<string, any> = {}) => compileExpression(src)(telemetry(fields));
+
+  test("literals and field paths", () => {
+    expect(evaluate("1_000")).toBe(1000);
+    expect(evaluate(".5")).toBe(0.5);
+    expect(evaluate("'a b'")).toBe("a b");
+    expect(evaluate("null")).toBeNull();
+    expect(evaluate("system.diskPercent", { system: { diskPercent: 42 } })).toBe(42);
+    expect(evaluate("app.serverLock.healthy", { app: { serverLock: null } })).toBeUndefined();
+  });
+
+  test("operator precedence: ! over comparisons over equality over && over ||", () => {
+    expect(evaluate("!a == false", { a: true })).toBe(true);
+    expect(evaluate("1 < 2 == 3 < 4")).toBe(true);
+    expect(evaluate("true || false && false")).toBe(true);
+    expect(evaluate("(true || false) && false")).toBe(false);
+    expect(evaluate("-x < 0", { x: 5 })).toBe(true);
+  });
+
+  test("null and missing fields", () => {
+    expect(evaluate("missing == null")).toBe(true);
+    expect(evaluate("a != null", { a: 0 })).toBe(true);
+    expect(evaluate("missing > 5")).toBe(false);
+    expect(evaluate("missing <= 5")).toBe(false);
+    expect(evaluate("!missing")).toBe(true);
+  });
+
+  test("syntax errors", () => {
+    expect(() => compileExpression("a >")).toThrow("Unexpected end");
+    expect(() => compileExpression("(a > 1")).toThrow("Expected ')'");
+    expect(() => compileExpression("a b")).toThrow("Unexpected 'b'");
+    expect(() => compileExpression("a = 1")).toThrow("Unexpected '='");
+    expect(() => compileExpression("'open")).toThrow("Unterminated string");
+  });
+});
+
+describe("buildRules", () => {
+  test("merges file rules over the defaults by id", () => {
+    const { snapshot, errors } = buildRules({
+      warmupSec: 10,
+      conditions: [
+        { id: "DISK_HIGH", when: "system.diskPercent >= 80" },
+        { id: "INTERNET_OFFLINE", enabled: false },
+        { id: "FPS_LOW", level: "DEGRADED", when: "app.fps < 30", debounceMs: 5000 },
+      ],
+    });
+    expect(errors).toEqual([]);
+    expect(snapshot.source).toBe("file");
+    expect(snapshot.warmupSec).toBe(10);
+
+    const ids = snapshot.conditions.map((c) => c.id);
+    expect(ids).not.toContain("INTERNET_OFFLINE");
+    const fps = snapshot.conditions.find((c) => c.id === "FPS_LOW")!;
+    expect(fps.severity).toBe("WARN");
+    expect(fps.debounceMs).toBe(5000);
+
+    // The override keeps the built-in clearWhen (< 89), so it has to be overridden alongside `when`
+    const disk = snapshot.conditions.find((c) => c.id === "DISK_HIGH")!;
+    expect(disk.evaluate(telemetry({ system: { diskPercent: 85 } }))).toBe(true);
+    expect(disk.clear?.(telemetry({ system: { diskPercent: 85 } }))).toBe(true);
+  });
+
+  test("reports every problem in an invalid file", () => {
+    const { errors } = buildRules({
+      conditions: [
+        { id: "lowercase", when: "true" },
+        { id: "NEW_RULE", level: "DEGRADED" },
+        { id: "BAD_EXPR", level: "DEGRADED", when: "a >" },
+        { id: "BAD_LEVEL", level: "FATAL" as any, when: "true", debounceMs: -1 },
+        { id: "NEW_RULE", level: "DEGRADED", when: "true" },
+      ],
+    });
+    expect(errors).toEqual([
+      expect.stringContaining("conditions[0]: id must match"),
+      "conditions[4]: duplicate id NEW_RULE",
+      "condition NEW_RULE: missing 'when' expression",
+      expect.stringContaining("condition BAD_EXPR: invalid 'when' expression"),
+      expect.stringContaining("condition BAD_LEVEL: level must be one of"),
+      "condition BAD_LEVEL: debounceMs must be a non-negative number",
+    ]);
+  });
+});
+
+describe("?? precedence", () => {
+  const t = (latencyMs: number | null) => telemetry({ network: { latencyMs } });
+
+  test("binds looser than comparisons, as in JavaScript", () => {
+    expect(compileExpression("network.latencyMs ?? 0 > 250")(t(100))).toBe(100);
+    expect(compileExpression("network.latencyMs ?? 0 > 250")(t(null))).toBe(false);
+    expect(compileExpression("(network.latencyMs ?? 0) > 250")(t(100))).toBe(false);
+    expect(compileExpression("(network.latencyMs ?? 0) > 250")(t(300))).toBe(true);
+    expect(compileExpression("(network.latencyMs ?? 300) > 250")(t(null))).toBe(true);
+  });
+
+  test("can't be mixed with && or || without parentheses", () => {
+    expect(() => compileExpression("a && b ?? c")).toThrow("parentheses");
+    expect(() => compileExpression("a ?? b || c")).toThrow("parentheses");
+    expect(compileExpression("(a && b) ?? c")(telemetry({ a: true, b: 2 }))).toBe(2);
+    expect(compileExpression("a ?? b ?? 3")(telemetry({}))).toBe(3);
+  });
+
+  test("the built-in rules parenthesize it", () => {
+    const latency = builtin("LATENCY_HIGH");
+    expect(latency.evaluate(t(100))).toBe(false);
+    expect(latency.evaluate(t(300))).toBe(true);
+    expect(latency.evaluate(t(null))).toBe(false);
+    expect(latency.clear?.(t(150))).toBe(true);
+  });
+});
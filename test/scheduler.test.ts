@@ -0,0 +1,107 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import * as fs from "fs";
+import { dataPath } from "../src/config";
+import { CommandProcessor } from "../src/commands";
+import { Scheduler, parseCron, cronMatches, nextMatch, lastMatch } from "../src/scheduler";
+import type { LeaseManager } from "../src/lease";
+import type { WatchdogEventEmitter } from "../src/events";
+
+// Cron is local time; dates are built with the local-time constructor and avoid DST changes
+const at = (month: number, day: number, hour = 0, minute = 0) => new Date(2026, month - 1, day, hour, minute).getTime();
+const next = (expr: string, from: number) => nextMatch(parseCron(expr), from);
+
+describe("parseCron", () => {
+  test("lists, ranges and steps", () => {
+    const spec = parseCron("*/15 9-17/4 1,15 * 1-5");
+    expect([...spec.minute]).toEqual([0, 15, 30, 45]);
+    expect([...spec.hour]).toEqual([9, 13, 17]);
+    expect([...spec.dayOfMonth]).toEqual([1, 15]);
+    expect(spec.month.size).toBe(12);
+    expect([...spec.dayOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(spec.anyDayOfMonth).toBe(false);
+    expect(spec.anyDayOfWeek).toBe(false);
+  });
+
+  test("a start with a step runs to the end of the range, and 7 is Sunday", () => {
+    expect([...parseCron("50/5 * * * *").minute]).toEqual([50, 55]);
+    expect([...parseCron("0 0 * * 5-7").dayOfWeek].sort()).toEqual([0, 5, 6]);
+  });
+
+  test("invalid expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow("must have 5 fields");
+    expect(() => parseCron("60 * * * *")).toThrow('Cron minute "60" out of range 0-59');
+    expect(() => parseCron("* * 0 * *")).toThrow("out of range 1-31");
+    expect(() => parseCron("* 5-2 * * *")).toThrow("out of range");
+    expect(() => parseCron("*/0 * * * *")).toThrow("out of range");
+    expect(() => parseCron("* * * JAN *")).toThrow('Invalid cron month "JAN"');
+  });
+});
+
+describe("cronMatches", () => {
+  test("when both day fields are restricted, either may match", () => {
+    // 2026-03-02 is a Monday, 2026-03-03 a Tuesday
+    const spec = parseCron("0 12 1 * 1");
+    expect(cronMatches(spec, new Date(at(3, 1, 12)))).toBe(true);
+    expect(cronMatches(spec, new Date(at(3, 2, 12)))).toBe(true);
+    expect(cronMatches(spec, new Date(at(3, 3, 12)))).toBe(false);
+    expect(cronMatches(spec, new Date(at(3, 2, 12, 1)))).toBe(false);
+  });
+
+  test("a wildcard day field defers to the other", () => {
+    expect(cronMatches(parseCron("0 12 * * 1"), new Date(at(3, 1, 12)))).toBe(false);
+    expect(cronMatches(parseCron("0 12 1 * *"), new Date(at(3, 2, 12)))).toBe(false);
+  });
+});
+
+describe("nextMatch", () => {
+  test("the first matching minute strictly after `from`", () => {
+    expect(next("* * * * *", at(3, 1, 12, 0) + 30_000)).toBe(at(3, 1, 12, 1));
+    expect(next("30 12 * * *", at(3, 1, 12, 30))).toBe(at(3, 2, 12, 30));
+    expect(next("30 12 * * *", at(3, 1, 12, 29))).toBe(at(3, 1, 12, 30));
+  });
+
+  test("rolls over hours, days, months and years", () => {
+    expect(next("5 * * * *", at(3, 1, 23, 59))).toBe(at(3, 2, 0, 5));
+    expect(next("0 3 * * 0", at(4, 6, 12))).toBe(at(4, 12, 3));
+    expect(next("0 0 31 * *", at(4, 1))).toBe(at(5, 31));
+    expect(next("0 0 1 1 *", at(6, 1))).toBe(new Date(2027, 0, 1).getTime());
+  });
+
+  test("29 February waits for a leap year, and 30 February never comes", () => {
+    expect(next("0 0 29 2 *", at(3, 1))).toBe(new Date(2028, 1, 29).getTime());
+    expect(next("0 0 30 2 *", at(3, 1))).toBeNull();
+  });
+});
+
+describe("lastMatch", () => {
+  test("the most recent match within the lookback", () => {
+    const spec = parseCron("0 2 * * *");
+    expect(lastMatch(spec, at(3, 1, 2, 30) + 15_000, 60)).toBe(at(3, 1, 2, 0));
+    expect(lastMatch(spec, at(3, 1, 3, 0), 60)).toBeNull();
+    expect(lastMatch(spec, at(3, 1, 2, 0), 1)).toBe(at(3, 1, 2, 0));
+  });
+});
+
+describe("Scheduler.add", () => {
+  const processor = new CommandProcessor("wall-test", {} as LeaseManager, {} as WatchdogEventEmitter, () => {});
+  const handler = async () => ({ message: "", details: {} });
+  processor.registerCommand({ type: "RESTART_VUOS", description: "", requiresLease: true, localBypass: true, args: {}, handler });
+  processor.registerCommand({ type: "QUIT_WATCHDOG", description: "", requiresLease: true, localBypass: false, args: {}, handler });
+  const scheduler = new Scheduler(processor, {} as LeaseManager, {} as WatchdogEventEmitter);
+
+  afterAll(() => fs.rmSync(dataPath("schedule.json"), { force: true }));
+
+  test("checks the command and its arguments", () => {
+    expect(scheduler.add({ id: "nightly", cron: "0 3 * * *", command: "RESTART_VUOS" }, "test").kind).toBe("command");
+    expect(() => scheduler.add({ cron: "0 3 * * *", command: "RESTART_VUOS", args: { force: true } }, "test"))
+      .toThrow("Invalid RESTART_VUOS arguments: force unknown argument");
+    expect(() => scheduler.add({ cron: "0 3 * * *", command: "QUIT_WATCHDOG" }, "test"))
+      .toThrow("QUIT_WATCHDOG can only be run by the lease holder and can't be scheduled");
+  });
+
+  test("a job is a command or a maintenance window", () => {
+    expect(() => scheduler.add({ cron: "0 3 * * *", command: "RESTART_VUOS", durationMin: 10 }, "test")).toThrow("not both");
+    expect(() => scheduler.add({ cron: "0 3 * * *" }, "test")).toThrow("Give command");
+    expect(() => scheduler.add({ cron: "0 3 * * *", durationMin: 10, args: {} }, "test")).toThrow("args only applies");
+  });
+});
@@ -0,0 +1,11 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// config.ts resolves the Vu One install and the data dir at import: point both at scratch dirs
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "watchdog-test-"));
+process.env.VUOS_DIR ??= path.join(root, "vuos");
+process.env.WATCHDOG_DATA_DIR ??= path.join(root, "data");
+fs.mkdirSync(process.env.VUOS_DIR, { recursive: true });
+
+process.on("exit", () => fs.rmSync(root, { recursive: true, force: true }));
@@ -0,0 +1,104 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { CREDENTIALS_PATH, dataPath } from "../src/config";
+import { loadCredentials } from "../src/credentials";
+import { canonicalJson, signingInput, verifyCommand } from "../src/signing";
+import type { CommandPayload } from "../src/types";
+
+const WALL = "wall-test";
+const HMAC_SECRET = "correct horse battery staple";
+const ed25519 = crypto.generateKeyPairSync("ed25519");
+const other = crypto.generateKeyPairSync("ed25519");
+
+// The raw 32-byte key is the tail of the SPKI encoding
+const rawPublicKey = (key: crypto.KeyObject) => key.export({ format: "der", type: "spki" }).subarray(-32).toString("base64");
+
+let nextId = 0;
+
+function command(fields: Partial<CommandPayload> = {}): CommandPayload {
+  return {
+    schema: "vu.watchdog.command.v1",
+    ts: Date.now(),
+    commandId: `cmd-${++nextId}`,
+    ttlMs: 30_000,
+    type: "RESTART_VUOS",
+    args: { reason: "test" },
+    ...fields,
+  };
+}
+
+function hmacSigned(payload: CommandPayload, clientId = "hmac-client", wallId = WALL): CommandPayload {
+  const sig = crypto.createHmac("sha256", HMAC_SECRET).update(signingInput(payload, clientId, wallId)).digest("base64");
+  return { ...payload, sig };
+}
+
+function ed25519Signed(payload: CommandPayload, clientId: string, key = ed25519.privateKey): CommandPayload {
+  return { ...payload, sig: crypto.sign(null, signingInput(payload, clientId, WALL), key).toString("base64") };
+}
+
+beforeAll(() => {
+  fs.mkdirSync(path.dirname(CREDENTIALS_PATH), { recursive: true });
+  fs.writeFileSync(CREDENTIALS_PATH, JSON.stringify({
+    commandKeys: [
+      { clientId: "hmac-client", alg: "hmac-sha256", key: HMAC_SECRET },
+      { clientId: "ed-raw", alg: "ed25519", key: rawPublicKey(ed25519.publicKey) },
+      { clientId: "ed-pem", alg: "ed25519", key: ed25519.publicKey.export({ format: "pem", type: "spki" }) },
+    ],
+  }));
+  loadCredentials(WALL);
+});
+
+afterAll(() => {
+  fs.rmSync(CREDENTIALS_PATH, { force: true });
+});
+
+describe("canonicalJson", () => {
+  test("sorts keys at every level and drops whitespace", () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: null, e: "x" }], c: true } })).toBe('{"a":{"c":true,"d":[2,{"e":"x","f":null}]},"b":1}');
+    expect(canonicalJson(undefined)).toBe("null");
+  });
+});
+
+describe("verifyCommand", () => {
+  test("accepts a valid HMAC-SHA256 signature", () => {
+    expect(verifyCommand(hmacSigned(command()), "hmac-client", WALL)).toBeNull();
+  });
+
+  test("accepts Ed25519 signatures with a raw or PEM public key", () => {
+    expect(verifyCommand(ed25519Signed(command(), "ed-raw"), "ed-raw", WALL)).toBeNull();
+    expect(verifyCommand(ed25519Signed(command(), "ed-pem"), "ed-pem", WALL)).toBeNull();
+  });
+
+  test("rejects signatures that don't cover the command as sent", () => {
+    const signed = hmacSigned(command());
+    expect(verifyCommand({ ...signed, args: { reason: "other" } }, "hmac-client", WALL)).toBe("Invalid hmac-sha256 signature for hmac-client");
+    expect(verifyCommand(hmacSigned(command(), "hmac-client", "other-wall"), "hmac-client", WALL)).toContain("Invalid");
+    expect(verifyCommand(ed25519Signed(command(), "ed-raw", other.privateKey), "ed-raw", WALL)).toBe("Invalid ed25519 signature for ed-raw");
+    expect(verifyCommand({ ...command(), sig: "not base64!" }, "ed-pem", WALL)).toContain("Invalid");
+  });
+
+  test("rejects a replayed commandId, and remembers it on disk", () => {
+    const signed = hmacSigned(command());
+    expect(verifyCommand(signed, "hmac-client", WALL)).toBeNull();
+    expect(verifyCommand(signed, "hmac-client", WALL)).toBe(`Replayed commandId ${signed.commandId}`);
+    // The same commandId from another client is a different command
+    expect(verifyCommand(ed25519Signed({ ...signed, sig: undefined }, "ed-raw"), "ed-raw", WALL)).toBeNull();
+
+    const stored = JSON.parse(fs.readFileSync(dataPath("seen-commands.json"), "utf-8"));
+    expect(stored[`hmac-client/${signed.commandId}`]).toBe(signed.ts + signed.ttlMs + 30_000);
+  });
+
+  test("a client with a key must sign, with a sane ts and ttlMs", () => {
+    expect(verifyCommand(command(), "hmac-client", WALL)).toBe("Signature required for hmac-client");
+    expect(verifyCommand(hmacSigned(command({ ts: Date.now() + 60_000 })), "hmac-client", WALL)).toContain("in the future");
+    expect(verifyCommand(hmacSigned(command({ ttlMs: 11 * 60_000 })), "hmac-client", WALL)).toContain("ttlMs exceeds");
+    expect(verifyCommand(hmacSigned(command({ ttlMs: "30000" as any })), "hmac-client", WALL)).toContain("numeric ts and ttlMs");
+  });
+
+  test("a client without a key may send unsigned commands, but not signed ones", () => {
+    expect(verifyCommand(command(), "unknown-client", WALL)).toBeNull();
+    expect(verifyCommand(hmacSigned(command(), "unknown-client"), "unknown-client", WALL)).toBe("Signature present but no key registered for unknown-client");
+  });
+});
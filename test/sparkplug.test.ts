@@ -0,0 +1,62 @@
+import { describe, test, expect } from "bun:test";
+import { DataType, encodePayload, decodePayload, type Metric } from "../src/sparkplug";
+
+const TS = 1_767_225_600_000;   // 2026-01-01T00:00:00Z, a multi-byte varint
+
+const roundTrip = (metrics: Metric[], seq?: number) => decodePayload(encodePayload({ timestamp: TS, metrics, seq }));
+
+describe("Sparkplug B payload codec", () => {
+  test("encodes the protobuf wire format", () => {
+    // timestamp (1) and seq (3) varints around one metric (2): name (1), timestamp (3), datatype (4), boolean_value (14)
+    const metric = [0x0a, 0x01, 0x61, 0x18, 0x01, 0x20, 0x0b, 0x70, 0x01];
+    expect([...encodePayload({ timestamp: 1, metrics: [{ name: "a", datatype: DataType.Boolean, value: true }], seq: 0 })])
+      .toEqual([0x08, 0x01, 0x12, metric.length, ...metric, 0x18, 0x00]);
+  });
+
+  test("round-trips every datatype we publish", () => {
+    const metrics: Metric[] = [
+      { name: "Int8", datatype: DataType.Int8, value: -5 },
+      { name: "Int32", datatype: DataType.Int32, value: -2_000_000_000 },
+      { name: "UInt32", datatype: DataType.UInt32, value: 4_000_000_000 },
+      { name: "Int64", datatype: DataType.Int64, value: -9_007_199_254_740_991 },
+      { name: "UInt64", datatype: DataType.UInt64, value: 9_007_199_254_740_991 },
+      { name: "DateTime", datatype: DataType.DateTime, value: TS },
+      { name: "Double", datatype: DataType.Double, value: 37.125 },
+      { name: "Boolean", datatype: DataType.Boolean, value: false },
+      { name: "String", datatype: DataType.String, value: "Vu One — ✓" },
+      { name: "Text", datatype: DataType.Text, value: "" },
+    ];
+    expect(roundTrip(metrics, 255)).toEqual({ timestamp: TS, metrics, seq: 255 });
+  });
+
+  test("null and non-finite numbers go out as is_null", () => {
+    expect(roundTrip([
+      { name: "System/GPU Name", datatype: DataType.String, value: null },
+      { name: "System/GPU Usage", datatype: DataType.Double, value: NaN },
+      { name: "System/Uptime", datatype: DataType.Int64, value: Infinity },
+    ]).metrics.map((m) => m.value)).toEqual([null, null, null]);
+  });
+
+  test("seq is optional", () => {
+    expect(roundTrip([]).seq).toBeUndefined();
+    expect(roundTrip([], 0).seq).toBe(0);
+  });
+
+  test("decodes Float values and skips fields it doesn't know", () => {
+    const float = Buffer.alloc(4);
+    float.writeFloatLE(1.5);
+    // name "f", datatype Float, an unknown varint field 30, float_value (12, fixed32)
+    const metric = [0x0a, 0x01, 0x66, 0x20, DataType.Float, 0xf0, 0x01, 0x07, 0x65, ...float];
+    expect(decodePayload(Uint8Array.from([0x08, 0x01, 0x12, metric.length, ...metric])).metrics)
+      .toEqual([{ name: "f", datatype: DataType.Float, value: 1.5 }]);
+  });
+
+  test("rejects what it can't encode or decode", () => {
+    expect(() => encodePayload({ timestamp: TS, metrics: [{ name: "f", datatype: DataType.Float, value: 1.5 }] }))
+      .toThrow("Unsupported datatype 9 for f");
+    const encoded = encodePayload({ timestamp: TS, metrics: [{ name: "s", datatype: DataType.String, value: "abc" }] });
+    expect(() => decodePayload(encoded.subarray(0, encoded.length - 1))).toThrow("Truncated field");
+    expect(() => decodePayload(Uint8Array.from([0x08, 0x80]))).toThrow("Truncated varint");
+    expect(() => decodePayload(Uint8Array.from([0x0b]))).toThrow("Unsupported wire type 3");
+  });
+});